@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchCoverageSnapshot } from "@/lib/snapshot";
+import { exportFileName, ExportFormat, serializeMetars } from "@/lib/export";
+import { StationFilter, stationMatcher } from "@/lib/stationFilter";
+import { StationQuery } from "@/lib/providers";
+import {
+  apiError,
+  parseCoverageParams,
+  parseExportFormat,
+  parseStationFilterParams,
+  RequestValidationError,
+} from "@/lib/validation";
+import { checkRateLimit, clientIdentifier, rateLimitExceeded, rateLimitHeaders } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Download the coverage snapshot as CSV, GeoJSON or KML. Takes the same
+ * coverage parameters as /api/metar/all and the page's filters: ?q= (search
+ * text and query terms, e.g. "cat:IFR gust>25"), ?status=, ?category= and
+ * ?ids= (e.g. a favorites list).
+ */
+export async function GET(request: NextRequest) {
+  const rateLimit = await checkRateLimit(clientIdentifier(request), "export");
+  if (!rateLimit.allowed) return rateLimitExceeded(rateLimit);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  const searchParams = request.nextUrl.searchParams;
+  let format: ExportFormat;
+  let queries: StationQuery[];
+  let filter: StationFilter;
+  try {
+    format = parseExportFormat(searchParams.get("format"));
+    queries = parseCoverageParams(searchParams);
+    filter = parseStationFilterParams(searchParams);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return apiError(400, error.code, error.message, { field: error.field, headers: limitHeaders });
+    }
+    return apiError(400, "INVALID_PARAMETER", error instanceof Error ? error.message : "Invalid coverage", {
+      headers: limitHeaders,
+    });
+  }
+
+  try {
+    const snapshot = await fetchCoverageSnapshot(queries);
+    const metars = snapshot.metars
+      .filter(stationMatcher(filter))
+      .sort((a, b) => a.icao.localeCompare(b.icao));
+    const { body, contentType } = serializeMetars(metars, format);
+
+    return new NextResponse(body, {
+      headers: {
+        ...limitHeaders,
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${exportFileName(format)}"`,
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
+        "X-Station-Count": String(metars.length),
+        // The file has no room for freshness metadata, so flag degraded snapshots here
+        "X-Snapshot-Stale": String(snapshot.meta.stale || snapshot.meta.incomplete),
+      },
+    });
+  } catch (error) {
+    console.error("Export Error:", error);
+    return apiError(500, "INTERNAL_ERROR", "Failed to export METAR data", { headers: limitHeaders });
+  }
+}
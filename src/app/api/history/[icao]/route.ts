@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { getHistoryRetentionDays, getStationHistory } from "@/lib/history";
+import { apiError, validatedJson } from "@/lib/validation";
+import { stationHistorySchema } from "@/lib/apiSchemas";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Accepts Unix milliseconds or anything Date.parse understands (ISO 8601)
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : NaN;
+}
+
+// Archived observations for one station, ?from=&to= default to the last 24 hours
+export async function GET(request: NextRequest, { params }: { params: { icao: string } }) {
+  const icao = params.icao.toUpperCase();
+  if (!/^[A-Z0-9]{3,4}$/.test(icao)) {
+    return apiError(400, "INVALID_PARAMETER", "Invalid station identifier", { field: "icao" });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const to = parseTime(searchParams.get("to")) ?? Date.now();
+  const from = parseTime(searchParams.get("from")) ?? to - DEFAULT_WINDOW_MS;
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return apiError(400, "INVALID_PARAMETER", "from and to must be Unix milliseconds or ISO 8601 times", {
+      field: Number.isNaN(from) ? "from" : "to",
+    });
+  }
+  if (from > to) {
+    return apiError(400, "INVALID_PARAMETER", "from must not be after to", { field: "from" });
+  }
+
+  try {
+    const observations = await getStationHistory(icao, from, to);
+    return validatedJson(stationHistorySchema, {
+      icao,
+      from,
+      to,
+      retentionDays: getHistoryRetentionDays(),
+      observations,
+    });
+  } catch (error) {
+    console.error("History Read Error:", error);
+    return apiError(500, "INTERNAL_ERROR", "Failed to read observation history");
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchMetarObservations, latestPerStation } from "@/lib/snapshot";
+import { getConfiguredCoverage, resolveCoverage } from "@/lib/coverage";
+import { recordObservations } from "@/lib/history";
+import { detectLiveEvents, publishLiveEvents } from "@/lib/liveEvents";
+import { applyStationUpdates, getData, saveData, toStationUpdate, withIngestLock } from "@/lib/maintenance";
+import { IngestSummary } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+// When INGEST_SECRET is set, callers must send it as a bearer token or ?secret=
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.INGEST_SECRET;
+  if (!secret) return true;
+  const header = request.headers.get("authorization");
+  return header === `Bearer ${secret}` || request.nextUrl.searchParams.get("secret") === secret;
+}
+
+/**
+ * Ingestion job for outage tracking. Point a scheduler (cron, systemd timer,
+ * Vercel Cron...) at this route every few minutes: it fetches the current
+ * METAR snapshot, records $ flag transitions and persists the result, and
+ * archives every observation in the per-station history. Changes since the
+ * previous run are published to the /api/stream live feed, and reports our
+ * parser decodes differently from the provider are logged.
+ */
+async function ingest(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await withIngestLock(async (): Promise<IngestSummary> => {
+      const observations = await fetchMetarObservations(resolveCoverage(getConfiguredCoverage()), {
+        checkParser: true,
+      });
+      const metars = latestPerStation(observations);
+      const data = await getData();
+      const liveEvents = detectLiveEvents(data.stationStatus, metars);
+      const { outagesStarted, outagesEnded } = applyStationUpdates(data, metars.map(toStationUpdate));
+
+      data.lastIngest = {
+        ingestedAt: Date.now(),
+        stations: metars.length,
+        outagesStarted,
+        outagesEnded,
+        observationsRecorded: await recordObservations(observations).catch((error) => {
+          // The outage log is still worth saving if the archive is unavailable
+          console.error("History Error:", error);
+          return 0;
+        }),
+      };
+
+      if (!(await saveData(data))) {
+        throw new Error("Failed to persist data");
+      }
+      await publishLiveEvents(liveEvents, data.lastIngest.ingestedAt).catch((error) => {
+        console.error("Live Event Error:", error);
+      });
+      return data.lastIngest;
+    });
+
+    if (!summary) {
+      return NextResponse.json({ error: "Ingest already in progress" }, { status: 409 });
+    }
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Ingest Error:", error);
+    return NextResponse.json({ error: "Failed to ingest METAR snapshot" }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return ingest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return ingest(request);
+}
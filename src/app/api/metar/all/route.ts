@@ -1,82 +1,75 @@
-import { NextResponse } from "next/server";
-import { MetarData, AwcMetarResponse } from "@/types";
-import { transformMetar } from "@/lib/metarUtils";
+import { NextRequest, NextResponse } from "next/server";
+import { fetchCoverageSnapshot } from "@/lib/snapshot";
+import { diffSnapshot, indexSnapshot, loadSnapshotIndex, rememberSnapshotIndex } from "@/lib/snapshotVersions";
+import { StationQuery } from "@/lib/providers";
+import { apiError, parseCoverageParams, RequestValidationError, validatedJson } from "@/lib/validation";
+import { metarSnapshotDeltaSchema, metarSnapshotSchema } from "@/lib/apiSchemas";
+import { checkRateLimit, clientIdentifier, rateLimitExceeded, rateLimitHeaders } from "@/lib/rateLimit";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-    const states = [
-        "al", "ak", "az", "ar", "ca", "co", "ct", "de", "fl", "ga",
-        "hi", "id", "il", "in", "ia", "ks", "ky", "la", "me", "md",
-        "ma", "mi", "mn", "ms", "mo", "mt", "ne", "nv", "nh", "nj",
-        "nm", "ny", "nc", "nd", "oh", "ok", "or", "pa", "ri", "sc",
-        "sd", "tn", "tx", "ut", "vt", "va", "wa", "wv", "wi", "wy", "dc"
-    ];
+// If-None-Match may list several tags, and proxies that compress the body weaken them to W/"..."
+function matchesEtag(header: string | null, etag: string): boolean {
+    if (!header) return false;
+    return header.split(",").some((tag) => {
+        const trimmed = tag.trim();
+        return trimmed === "*" || trimmed.replace(/^W\//, "") === etag;
+    });
+}
 
-    const API_BASE = "https://aviationweather.gov/api/data/metar";
-    const allMetars: MetarData[] = [];
+/**
+ * Latest observation per station with freshness metadata. The response
+ * carries an ETag (the snapshot version), so unchanged polls get a 304.
+ * With ?since=<version> only stations changed since that version are sent;
+ * an unknown or expired version falls back to the full snapshot.
+ */
+export async function GET(request: NextRequest) {
+    const rateLimit = await checkRateLimit(clientIdentifier(request), "snapshot");
+    if (!rateLimit.allowed) return rateLimitExceeded(rateLimit);
+    const limitHeaders = rateLimitHeaders(rateLimit);
 
+    let queries: StationQuery[];
     try {
-        // Fetch in parallel batches of 10
-        const batchSize = 10;
-        for (let i = 0; i < states.length; i += batchSize) {
-            const batch = states.slice(i, i + batchSize);
-            const promises = batch.map(async (state) => {
-                try {
-                    const response = await fetch(
-                        `${API_BASE}?ids=@${state}&format=json&hours=1`,
-                        {
-                            next: { revalidate: 300 }, // Cache individual state requests
-                            headers: {
-                                "User-Agent": "METAR-Command-Center/1.0",
-                            }
-                        }
-                    );
-
-                    if (!response.ok) return [];
+        queries = parseCoverageParams(request.nextUrl.searchParams);
+    } catch (error) {
+        if (error instanceof RequestValidationError) {
+            return apiError(400, error.code, error.message, { field: error.field, headers: limitHeaders });
+        }
+        return apiError(400, "INVALID_PARAMETER", error instanceof Error ? error.message : "Invalid coverage", {
+            headers: limitHeaders,
+        });
+    }
 
-                    const data = await response.json();
-                    if (!data || !Array.isArray(data)) return [];
+    try {
+        const fetched = await fetchCoverageSnapshot(queries);
+        const { version, index } = indexSnapshot(fetched);
+        const snapshot = { ...fetched, meta: { ...fetched.meta, version } };
 
-                    return data.map((item: AwcMetarResponse) => transformMetar(item));
-                } catch (err) {
-                    console.error(`Error fetching state ${state}:`, err);
-                    return [];
-                }
-            });
+        // Cache degraded snapshots briefly so a recovered region shows up soon
+        const degraded = snapshot.meta.stale || snapshot.meta.incomplete;
+        const etag = `"${version}"`;
+        const headers = {
+            ...limitHeaders,
+            ETag: etag,
+            "Cache-Control": degraded
+                ? "public, s-maxage=60"
+                : "public, s-maxage=300, stale-while-revalidate=60",
+        };
 
-            const results = await Promise.all(promises);
-            allMetars.push(...results.flat());
+        if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+            return new NextResponse(null, { status: 304, headers });
         }
 
-        // Deduplicate by ICAO - keep only the most recent observation for each station
-        const stationMap = new Map<string, MetarData>();
-        for (const metar of allMetars) {
-            const existing = stationMap.get(metar.icao);
-            if (!existing) {
-                stationMap.set(metar.icao, metar);
-            } else {
-                // Compare observation times - keep the newer one
-                const existingTime = existing.observation_time || "000000Z";
-                const newTime = metar.observation_time || "000000Z";
-                if (newTime > existingTime) {
-                    stationMap.set(metar.icao, metar);
-                }
-            }
+        await rememberSnapshotIndex(version, index);
+        const since = request.nextUrl.searchParams.get("since");
+        const previous = since ? await loadSnapshotIndex(since) : null;
+        if (since && previous) {
+            return validatedJson(metarSnapshotDeltaSchema, diffSnapshot(snapshot, index, previous, since), { headers });
         }
 
-        const uniqueMetars = Array.from(stationMap.values());
-
-        return NextResponse.json(uniqueMetars, {
-            headers: {
-                "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
-            },
-        });
+        return validatedJson(metarSnapshotSchema, snapshot, { headers });
     } catch (error) {
-        console.error("Failed to fetch all US METARs:", error);
-        return NextResponse.json(
-            { error: "Failed to fetch METAR data" },
-            { status: 500 }
-        );
+        console.error("Failed to fetch METAR snapshot:", error);
+        return apiError(500, "INTERNAL_ERROR", "Failed to fetch METAR data", { headers: limitHeaders });
     }
 }
@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { fetchMetarSnapshot } from "@/lib/snapshot";
+import { boundingBoxTileCount, MAX_VIEWPORT_TILES, parseBoundingBox } from "@/lib/coverage";
+import { apiError, validatedJson } from "@/lib/validation";
+import { metarListSchema } from "@/lib/apiSchemas";
+import { checkRateLimit, clientIdentifier, rateLimitExceeded, rateLimitHeaders } from "@/lib/rateLimit";
+
+export const dynamic = "force-dynamic";
+
+// Latest METAR for every station inside ?bbox=minLat,minLon,maxLat,maxLon
+export async function GET(request: NextRequest) {
+  // Counted apart from /api/metar, since the map loads several tiles at once
+  const rateLimit = await checkRateLimit(clientIdentifier(request), "bbox");
+  if (!rateLimit.allowed) return rateLimitExceeded(rateLimit);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  const bbox = parseBoundingBox(request.nextUrl.searchParams.get("bbox") || "");
+  if (!bbox) {
+    return apiError(400, "INVALID_PARAMETER", "bbox must be minLat,minLon,maxLat,maxLon", {
+      field: "bbox",
+      headers: limitHeaders,
+    });
+  }
+  if (boundingBoxTileCount(bbox) > MAX_VIEWPORT_TILES) {
+    return apiError(400, "INVALID_PARAMETER", "bbox is too large; request a smaller area", {
+      field: "bbox",
+      headers: limitHeaders,
+    });
+  }
+
+  try {
+    const metars = await fetchMetarSnapshot([{ kind: "bbox", bbox }]);
+
+    return validatedJson(metarListSchema, metars, {
+      headers: {
+        ...limitHeaders,
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch METARs for bbox:", error);
+    return apiError(500, "INTERNAL_ERROR", "Failed to fetch METAR data", { headers: limitHeaders });
+  }
+}
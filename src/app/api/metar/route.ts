@@ -1,46 +1,99 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getWeatherProvider, WeatherProviderError } from "@/lib/providers";
+import { Advisory, PilotReport } from "@/types";
+import { WeatherProvider } from "@/lib/providers";
+import {
+  apiError,
+  isAreaType,
+  MetarRequest,
+  parseMetarRequest,
+  RequestValidationError,
+  upstreamJson,
+  validatedJson,
+} from "@/lib/validation";
+import { advisoryListSchema, awcMetarListSchema, awcTafListSchema, pilotReportListSchema } from "@/lib/apiSchemas";
+import { advisoryInBoundingBox, transformAirSigmet, transformGairmet, transformPirep } from "@/lib/advisories";
+import { checkRateLimit, clientIdentifier, rateLimitExceeded, rateLimitHeaders } from "@/lib/rateLimit";
 
-// Proxy METAR/TAF requests to avoid CORS issues
+function unsupported(provider: WeatherProvider, product: string): WeatherProviderError {
+  return new WeatherProviderError(`The ${provider.name} provider does not serve ${product}`, 501);
+}
+
+// SIGMETs, AIRMETs and G-AIRMETs overlapping the bbox (if any), or PIREPs inside it, normalized
+async function fetchAreaProduct(provider: WeatherProvider, params: MetarRequest): Promise<Advisory[] | PilotReport[]> {
+  if (params.type === "pirep") {
+    if (!provider.getPireps) throw unsupported(provider, "PIREPs");
+    return (await provider.getPireps(params.bbox!, params.hours)).map(transformPirep);
+  }
+
+  let advisories: Advisory[];
+  if (params.type === "gairmet") {
+    if (!provider.getGairmets) throw unsupported(provider, "G-AIRMETs");
+    advisories = (await provider.getGairmets()).map(transformGairmet);
+  } else {
+    // SIGMETs and AIRMETs are one upstream product; its outlooks are dropped
+    if (!provider.getAirSigmets) throw unsupported(provider, "SIGMETs or AIRMETs");
+    const wanted = params.type.toUpperCase();
+    advisories = (await provider.getAirSigmets())
+      .filter((awc) => awc.airSigmetType?.toUpperCase() === wanted)
+      .map(transformAirSigmet);
+  }
+  const { bbox } = params;
+  return advisories.filter((a) => a.coordinates.length > 0 && (!bbox || advisoryInBoundingBox(a, bbox)));
+}
+
+// Proxy METAR/TAF requests to avoid CORS issues; SIGMET, AIRMET, G-AIRMET and PIREP come back normalized
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const ids = searchParams.get("ids") || "";
-  const hours = searchParams.get("hours") || "2";
-  const format = searchParams.get("format") || "json";
-  const type = searchParams.get("type") || "metar"; // metar or taf
-
-  if (!ids) {
-    return NextResponse.json({ error: "Missing ids parameter" }, { status: 400 });
+  const rateLimit = await checkRateLimit(clientIdentifier(request));
+  if (!rateLimit.allowed) return rateLimitExceeded(rateLimit);
+  const limitHeaders = rateLimitHeaders(rateLimit);
+
+  let params: MetarRequest;
+  try {
+    params = parseMetarRequest(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return apiError(400, error.code, error.message, { field: error.field, headers: limitHeaders });
+    }
+    throw error;
   }
 
   try {
-    const endpoint = type === "taf" ? "taf" : "metar";
-    const url = `https://aviationweather.gov/api/data/${endpoint}?ids=${ids}&format=${format}&hours=${hours}`;
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "METAR-Command-Center/1.0",
-      },
-      next: { revalidate: 300 }, // Cache for 5 minutes
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Aviation Weather API returned ${response.status}` },
-        { status: response.status }
-      );
+    const provider = getWeatherProvider();
+
+    if (isAreaType(params.type)) {
+      const items = await fetchAreaProduct(provider, params);
+      const headers = {
+        ...limitHeaders,
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
+      };
+      if (params.format === "json") {
+        return validatedJson<unknown>(params.type === "pirep" ? pilotReportListSchema : advisoryListSchema, items, {
+          headers,
+        });
+      }
+      // Advisories span several lines, so they are separated by a blank line
+      const text = items.map((item) => item.raw ?? "").join(params.type === "pirep" ? "\n" : "\n\n");
+      return new NextResponse(text, { headers: { ...headers, "Content-Type": "text/plain" } });
     }
 
-    if (format === "json") {
-      const data = await response.json();
-      return NextResponse.json(data, {
+    const data =
+      params.type === "taf"
+        ? await provider.getTafs(params.ids)
+        : await provider.getMetars({ kind: "stations", ids: params.ids }, params.hours);
+
+    if (params.format === "json") {
+      return upstreamJson<unknown>(params.type === "taf" ? awcTafListSchema : awcMetarListSchema, data, {
         headers: {
+          ...limitHeaders,
           "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
         },
       });
     } else {
-      const text = await response.text();
+      const text = data.map((item) => ("rawTAF" in item ? item.rawTAF : item.rawOb)).join("\n");
       return new NextResponse(text, {
         headers: {
+          ...limitHeaders,
           "Content-Type": "text/plain",
           "Cache-Control": "public, s-maxage=300, stale-while-revalidate=60",
         },
@@ -48,9 +101,9 @@ export async function GET(request: NextRequest) {
     }
   } catch (error) {
     console.error("Aviation weather fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch aviation weather data" },
-      { status: 500 }
-    );
+    if (error instanceof WeatherProviderError) {
+      return apiError(error.status, "UPSTREAM_ERROR", error.message, { headers: limitHeaders });
+    }
+    return apiError(500, "INTERNAL_ERROR", "Failed to fetch aviation weather data", { headers: limitHeaders });
   }
 }
@@ -0,0 +1,124 @@
+import { NextRequest } from "next/server";
+import { getLiveStatus, readLiveEventsSince } from "@/lib/liveEvents";
+import { LiveEvent } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// Close well before serverless time limits; EventSource reconnects with Last-Event-ID
+const STREAM_LIFETIME_MS = 5 * 60 * 1000;
+const RECONNECT_DELAY_MS = 5000;
+
+function frame(event: string, data: unknown, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseCursor(value: string | null): number | null {
+  if (!value) return null;
+  const cursor = Number(value);
+  return Number.isInteger(cursor) && cursor >= 0 ? cursor : null;
+}
+
+/**
+ * Server-Sent Events feed of ingest changes: `observation` for every new
+ * METAR, `category` when a station's flight category changes and
+ * `maintenance` when its $ flag is set or cleared. A `status` event carries
+ * the last ingest time, and `resync` means events were missed (the client
+ * was away longer than the event log goes back) and snapshots should be
+ * refetched. Reconnecting clients resume from Last-Event-ID.
+ */
+export async function GET(request: NextRequest) {
+  const initial = await getLiveStatus();
+  const requested = parseCursor(request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId"));
+  // A cursor ahead of the log means the event store was reset
+  let cursor = requested !== null && requested <= initial.lastEventId ? requested : initial.lastEventId;
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const startedAt = Date.now();
+      let lastWrite = startedAt;
+
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(timer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const sendEvents = (events: LiveEvent[]) => {
+        if (events.length > 0 && events[0].id > cursor + 1) {
+          send(frame("resync", { missedFrom: cursor + 1, missedTo: events[0].id - 1 }));
+        }
+        for (const event of events) {
+          send(frame(event.type, event, event.id));
+          cursor = event.id;
+        }
+      };
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const status = await getLiveStatus();
+          if (status.lastEventId < cursor) {
+            // Event store was reset underneath us; start over from its head
+            cursor = status.lastEventId;
+            send(frame("resync", { missedFrom: null, missedTo: null }));
+          }
+          while (!closed && status.lastEventId > cursor) {
+            const events = await readLiveEventsSince(cursor);
+            if (events.length === 0) {
+              // Everything up to the head has been trimmed
+              send(frame("resync", { missedFrom: cursor + 1, missedTo: status.lastEventId }));
+              cursor = status.lastEventId;
+              break;
+            }
+            sendEvents(events);
+          }
+          if (!closed && Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+            send(frame("status", status));
+          }
+        } catch (error) {
+          console.error("Live Stream Error:", error);
+        }
+
+        if (closed) return;
+        if (Date.now() - startedAt >= STREAM_LIFETIME_MS) {
+          close();
+          return;
+        }
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      };
+
+      request.signal.addEventListener("abort", close);
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      send(frame("status", { ...initial, lastEventId: cursor }));
+      void poll();
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(timer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,4 @@
+// Version 1 of the public API; same handler as the unversioned route
+export { GET } from "@/app/api/export/route";
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,4 @@
+// Version 1 of the public API: read-only, clearing the data stays on the unversioned route
+export { GET } from "@/app/api/maintenance/route";
+
+export const dynamic = "force-dynamic";
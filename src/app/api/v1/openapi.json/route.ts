@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+// Generated from the response schemas, so it only changes with a deploy
+const document = buildOpenApiDocument();
+
+// OpenAPI 3.1 description of the /api/v1 routes
+export function GET() {
+  return NextResponse.json(document, {
+    headers: {
+      "Cache-Control": "public, max-age=300, s-maxage=3600",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
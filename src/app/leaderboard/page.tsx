@@ -5,6 +5,9 @@ import { motion } from "framer-motion";
 import Link from "next/link";
 import { useAllUSMetars } from "@/hooks/useMetar";
 import { useMaintenanceStore, StationStats } from "@/stores/maintenanceStore";
+import { useSettingsStore, useUnitPreferences } from "@/stores/favoritesStore";
+import { UnitSettings } from "@/components/UnitSettings";
+import { formatTemp, formatVisibility, formatWind, unitLabels } from "@/lib/units";
 import { format, formatDistanceToNow } from "date-fns";
 
 type SortField = "totalOutages" | "totalDowntime" | "averageDowntime" | "longestOutage" | "downtimePercentage" | "firstOutage" | "lastOutage";
@@ -24,41 +27,29 @@ export default function LeaderboardPage() {
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [showCurrentOnly, setShowCurrentOnly] = useState(false);
 
-  const { data: allMetars, isLoading, dataUpdatedAt } = useAllUSMetars();
+  const { setUnit, coverageRegion } = useSettingsStore();
+  const { data: allMetars, isLoading, dataUpdatedAt } = useAllUSMetars(coverageRegion);
   const {
     fetchData,
-    updateStationStatuses,
     getStationStats,
     getRecentOutages,
     outageLog,
+    lastIngest,
     isLoading: storeLoading
   } = useMaintenanceStore();
+  const units = useUnitPreferences();
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Fetch maintenance data on mount
+  // Fetch maintenance data on mount and re-read it whenever the METAR snapshot refreshes.
+  // Outages are recorded server-side by /api/ingest; this page only reads.
   useEffect(() => {
     if (mounted) {
       fetchData();
     }
-  }, [mounted, fetchData]);
-
-  // Update maintenance store with current station statuses when METAR data updates
-  useEffect(() => {
-    if (allMetars && mounted && allMetars.length > 0) {
-      // Batch all updates together - include observation time
-      const updates = allMetars.map((metar) => ({
-        icao: metar.icao,
-        stationName: metar.station_name,
-        hasFlag: metar.has_maintenance_flag,
-        obsTime: metar.obs_time_unix,
-        observationTime: metar.observation_time, // Zulu time string like "171553Z"
-      }));
-      updateStationStatuses(updates);
-    }
-  }, [allMetars, mounted, updateStationStatuses]);
+  }, [mounted, fetchData, dataUpdatedAt]);
 
   // Get stats - only stations with outage history will appear
   const stats = useMemo(() => {
@@ -113,6 +104,12 @@ export default function LeaderboardPage() {
     });
   }, [stats, sortField, sortDirection, showCurrentOnly]);
 
+  // Latest observation per station, shown alongside the outage stats
+  const latestMetars = useMemo(
+    () => new Map((allMetars ?? []).map((m) => [m.icao, m])),
+    [allMetars]
+  );
+
   const currentlyDownCount = stats.filter((s) => s.currentlyDown).length;
   const totalOutagesLogged = outageLog.length;
   const totalStationsTracked = stats.length;
@@ -157,6 +154,7 @@ export default function LeaderboardPage() {
               Tracking station outages marked with $ maintenance flag
             </p>
           </div>
+          <UnitSettings units={units} onChange={setUnit} theme="dark" />
         </div>
 
         {/* Stats Cards */}
@@ -177,12 +175,16 @@ export default function LeaderboardPage() {
             <p className="text-white/30 text-xs mt-1">with outage history</p>
           </div>
           <div className="glass rounded-2xl p-6">
-            <p className="text-white/50 text-sm mb-1">Last Updated</p>
+            <p className="text-white/50 text-sm mb-1">Last Ingest</p>
             <p className="text-2xl font-bold text-white">
-              {dataUpdatedAt ? format(new Date(dataUpdatedAt), "HH:mm:ss") : "--"}
+              {lastIngest ? format(new Date(lastIngest.ingestedAt), "HH:mm:ss") : "--"}
             </p>
             <p className="text-white/30 text-xs mt-1">
-              {isLoading || storeLoading ? "Refreshing..." : "Auto-refresh hourly"}
+              {isLoading || storeLoading
+                ? "Refreshing..."
+                : lastIngest
+                  ? `${lastIngest.stations} stations checked`
+                  : "No ingest run yet"}
             </p>
           </div>
         </div>
@@ -210,6 +212,7 @@ export default function LeaderboardPage() {
                   <th className="text-left p-4 text-white/50 font-medium">Rank</th>
                   <th className="text-left p-4 text-white/50 font-medium">Station</th>
                   <th className="text-left p-4 text-white/50 font-medium">Status</th>
+                  <th className="text-left p-4 text-white/50 font-medium">Latest Obs</th>
                   <th
                     className="text-left p-4 text-white/50 font-medium cursor-pointer hover:text-white transition-colors"
                     onClick={() => handleSort("totalOutages")}
@@ -257,7 +260,7 @@ export default function LeaderboardPage() {
               <tbody>
                 {sortedStats.length === 0 ? (
                   <tr>
-                    <td colSpan={10} className="p-8 text-center text-white/50">
+                    <td colSpan={11} className="p-8 text-center text-white/50">
                       {isLoading || storeLoading
                         ? "Loading station data..."
                         : "No outage data yet. Stations will appear here when they have the $ maintenance flag."}
@@ -298,6 +301,26 @@ export default function LeaderboardPage() {
                           </span>
                         )}
                       </td>
+                      <td className="p-4 text-white/70 text-xs whitespace-nowrap">
+                        {(() => {
+                          const metar = latestMetars.get(station.icao);
+                          if (!metar) return "--";
+                          return (
+                            <>
+                              <p>
+                                {formatTemp(metar.temperature_c, units.temp)}
+                                {unitLabels.temp[units.temp]} ·{" "}
+                                {formatWind(metar.wind_speed_kt, units.wind)}
+                                {unitLabels.wind[units.wind]}
+                              </p>
+                              <p className="text-white/40">
+                                Vis {formatVisibility(metar.visibility_sm, units.visibility)}
+                                {unitLabels.visibility[units.visibility]}
+                              </p>
+                            </>
+                          );
+                        })()}
+                      </td>
                       <td className="p-4 text-white font-bold">{station.totalOutages}</td>
                       <td className="p-4 text-white">
                         {station.totalDowntimeMinutes > 0 ? formatDuration(station.totalDowntimeMinutes) : "--"}
@@ -1,15 +1,40 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import dynamic from "next/dynamic";
-import { useMetar, useAllUSMetars, useTaf } from "@/hooks/useMetar";
-import { useFavoritesStore, useSettingsStore } from "@/stores/favoritesStore";
-import { MetarData } from "@/types";
+import {
+  useMetar,
+  useAllUSMetars,
+  useTaf,
+  useViewportMetars,
+  useAdvisories,
+  usePireps,
+  useMetarHistory,
+  useSnapshotMeta,
+} from "@/hooks/useMetar";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
+import {
+  useFavoritesStore,
+  useSettingsStore,
+  useMinimumsStore,
+  useSavedQueriesStore,
+  useUnitPreferences,
+} from "@/stores/favoritesStore";
+import { useMaintenanceStore } from "@/stores/maintenanceStore";
+import { BoundingBox, MetarData } from "@/types";
 import { Header } from "@/components/Header";
 import { SearchSection } from "@/components/SearchSection";
+import { MinimumsPanel } from "@/components/MinimumsPanel";
+import { SnapshotStatusBanner } from "@/components/SnapshotStatusBanner";
+import { LiveIndicator } from "@/components/LiveIndicator";
+import { ExportMenu } from "@/components/ExportMenu";
 import { MetarDetailCard } from "@/components/MetarDetail";
 import StationGrid from "@/components/StationGrid";
+import { computeDerivedWeather, DerivedWeather } from "@/lib/derivedWeather";
+import { coverageRegions } from "@/lib/coverage";
+import { CategoryFilter, StationFilter, stationMatcher, StatusFilter } from "@/lib/stationFilter";
+import { resolveStationId } from "@/lib/stationCatalog";
 
 // Dynamic import for map (SSR issues with Leaflet)
 const MetarMap = dynamic(() => import("@/components/MetarMap"), {
@@ -21,20 +46,52 @@ const MetarMap = dynamic(() => import("@/components/MetarMap"), {
   ),
 });
 
-type SortOption = "icao" | "category" | "temp" | "wind" | "time";
+type SortOption =
+  | "icao"
+  | "category"
+  | "temp"
+  | "wind"
+  | "time"
+  | "densityAltitude"
+  | "pressureAltitude"
+  | "humidity"
+  | "spread"
+  | "cloudBase";
+
+const sortLabels: Record<SortOption, string> = {
+  icao: "ICAO",
+  category: "Flight Category",
+  temp: "Temperature",
+  wind: "Wind Speed",
+  time: "Observation Time",
+  densityAltitude: "Density Altitude",
+  pressureAltitude: "Pressure Altitude",
+  humidity: "Relative Humidity",
+  spread: "Temp/Dew Spread",
+  cloudBase: "Est. Cloud Base",
+};
+
+// Stable while the snapshot loads, so memoized search suggestions are not recomputed each render
+const noStations: MetarData[] = [];
 
 export default function Home() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedStation, setSelectedStation] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<"grid" | "map">("grid");
-  const [statusFilter, setStatusFilter] = useState<"all" | "ok" | "flagged">("all");
-  const [categoryFilter, setCategoryFilter] = useState<"all" | "VFR" | "MVFR" | "IFR" | "LIFR">("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>("all");
   const [sortBy, setSortBy] = useState<SortOption>("icao");
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [mapBounds, setMapBounds] = useState<BoundingBox | null>(null);
 
   // Stores
   const { favorites, toggleFavorite, isFavorite } = useFavoritesStore();
-  const { tempUnit, setTempUnit, theme, setTheme } = useSettingsStore();
+  const { setUnit, theme, setTheme, coverageRegion, setCoverageRegion, hazardLayers, toggleHazardLayer } =
+    useSettingsStore();
+  const units = useUnitPreferences();
+  const { profiles, activeProfileId, setActiveProfile, saveProfile, deleteProfile } = useMinimumsStore();
+  const minimumsProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
+  const { savedQueries, saveQuery, deleteQuery } = useSavedQueriesStore();
 
   // Load recent searches from localStorage
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
@@ -46,9 +103,35 @@ export default function Home() {
   // Query for selected station
   const { data: selectedMetar, isLoading: isLoadingSelected } = useMetar(selectedStation);
   const { data: selectedTaf } = useTaf(selectedStation);
+  const { data: selectedHistory } = useMetarHistory(selectedStation);
+
+  // Outage log for shading maintenance periods on the trend charts
+  const { outageLog, fetchData: fetchMaintenance } = useMaintenanceStore();
+  useEffect(() => {
+    if (selectedStation) fetchMaintenance();
+  }, [selectedStation, fetchMaintenance]);
+  const selectedOutages = useMemo(
+    () => outageLog.filter((event) => event.icao === selectedStation),
+    [outageLog, selectedStation]
+  );
+
+  // All stations in the selected coverage, for the grid; the map loads its viewport instead
+  const { data: allMetars } = useAllUSMetars(coverageRegion, viewMode === "grid");
+  const { data: snapshotMeta, isError: snapshotRefreshFailed } = useSnapshotMeta(coverageRegion, viewMode === "grid");
 
-  // Query for all US stations
-  const { data: allMetars, isLoading: isLoadingAll, refetch: refetchAll } = useAllUSMetars();
+  // Pushed observations and maintenance changes; polling slows while connected
+  useLiveUpdates();
+
+  // Stations in the map viewport, loaded as the map is panned and zoomed
+  const { data: viewportMetars, isError: viewportRefreshFailed } = useViewportMetars(
+    viewMode === "map" ? mapBounds : null
+  );
+  // Observations the current view has loaded, for search and suggestions
+  const loadedStations = viewMode === "map" ? viewportMetars : allMetars;
+
+  // Hazard layers toggled on the map
+  const advisories = useAdvisories(viewMode === "map" ? hazardLayers : []);
+  const { data: pireps } = usePireps(viewMode === "map" && hazardLayers.includes("pirep") ? mapBounds : null);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -78,45 +161,44 @@ export default function Home() {
   // Handle search
   const handleSearch = useCallback(
     (query: string) => {
-      const icao = query.toUpperCase().trim();
-      if (icao.length >= 4) {
+      // ICAO, IATA or FAA identifier, or an airport name or city
+      const icao = resolveStationId(query, loadedStations);
+      if (icao) {
         setSelectedStation(icao);
         const updated = [icao, ...recentSearches.filter((s) => s !== icao)].slice(0, 10);
         setRecentSearches(updated);
         localStorage.setItem("recentMetarSearches", JSON.stringify(updated));
       }
     },
-    [recentSearches]
+    [recentSearches, loadedStations]
   );
 
+  // Search, favorites, status and category filters shared by the grid, the map and exports
+  const stationFilter = useMemo<StationFilter>(
+    () => ({
+      search: searchQuery,
+      status: statusFilter,
+      category: categoryFilter,
+      stations: showFavoritesOnly ? favorites : null,
+    }),
+    [searchQuery, statusFilter, categoryFilter, showFavoritesOnly, favorites]
+  );
+  const stationMatches = useMemo(() => stationMatcher(stationFilter), [stationFilter]);
+
   // Filter and sort stations
   const filteredStations = useMemo(() => {
-    let filtered = allMetars ?? [];
-
-    // Text filter
-    if (searchQuery.length > 0) {
-      const q = searchQuery.toUpperCase();
-      filtered = filtered.filter(
-        (m) => m.icao.includes(q) || m.station_name?.toUpperCase().includes(q)
-      );
-    }
-
-    // Favorites filter
-    if (showFavoritesOnly) {
-      filtered = filtered.filter((m) => favorites.includes(m.icao));
-    }
-
-    // Status filter
-    if (statusFilter === "flagged") {
-      filtered = filtered.filter((m) => m.has_maintenance_flag);
-    } else if (statusFilter === "ok") {
-      filtered = filtered.filter((m) => !m.has_maintenance_flag);
-    }
-
-    // Category filter
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter((m) => m.flight_category === categoryFilter);
-    }
+    const filtered = (allMetars ?? []).filter(stationMatches);
+
+    // Derived values are only needed when sorting by one of them
+    const derivedCache = new Map<string, DerivedWeather>();
+    const derived = (m: MetarData) => {
+      let d = derivedCache.get(m.icao);
+      if (!d) {
+        d = computeDerivedWeather(m);
+        derivedCache.set(m.icao, d);
+      }
+      return d;
+    };
 
     // Sort
     const sortFns: Record<SortOption, (a: MetarData, b: MetarData) => number> = {
@@ -128,6 +210,14 @@ export default function Home() {
       temp: (a, b) => (a.temperature_c ?? 999) - (b.temperature_c ?? 999),
       wind: (a, b) => (b.wind_speed_kt ?? 0) - (a.wind_speed_kt ?? 0),
       time: (a, b) => (b.observation_time ?? "").localeCompare(a.observation_time ?? ""),
+      densityAltitude: (a, b) =>
+        (derived(b).density_altitude_ft ?? -99999) - (derived(a).density_altitude_ft ?? -99999),
+      pressureAltitude: (a, b) =>
+        (derived(b).pressure_altitude_ft ?? -99999) - (derived(a).pressure_altitude_ft ?? -99999),
+      humidity: (a, b) => (derived(b).relative_humidity_pct ?? -1) - (derived(a).relative_humidity_pct ?? -1),
+      spread: (a, b) => (derived(a).temp_dewpoint_spread_c ?? 999) - (derived(b).temp_dewpoint_spread_c ?? 999),
+      cloudBase: (a, b) =>
+        (derived(a).estimated_cloud_base_ft_agl ?? 99999) - (derived(b).estimated_cloud_base_ft_agl ?? 99999),
     };
 
     // Always show favorites first
@@ -135,7 +225,19 @@ export default function Home() {
     const nonFavs = filtered.filter((m) => !favorites.includes(m.icao)).sort(sortFns[sortBy]);
 
     return [...favs, ...nonFavs];
-  }, [allMetars, searchQuery, showFavoritesOnly, statusFilter, categoryFilter, sortBy, favorites]);
+  }, [allMetars, stationMatches, sortBy, favorites]);
+
+  // Map shows only the stations its viewport tiles have loaded
+  const mapStations = useMemo(() => viewportMetars.filter(stationMatches), [viewportMetars, stationMatches]);
+
+  // Zoom to the matches loaded when the search changes. Later tiles don't refocus the
+  // map, or each fit would load more matches and move it again.
+  const mapStationsRef = useRef(mapStations);
+  mapStationsRef.current = mapStations;
+  const [mapFocus, setMapFocus] = useState<MetarData[] | undefined>(undefined);
+  useEffect(() => {
+    setMapFocus(searchQuery.length > 0 ? mapStationsRef.current : undefined);
+  }, [searchQuery]);
 
   return (
     <main className={`min-h-screen relative ${theme === "light" ? "bg-gray-100" : ""}`}>
@@ -156,7 +258,7 @@ export default function Home() {
       </div>
 
       <div className="relative z-10 max-w-7xl mx-auto px-4 py-8 pt-24">
-        <Header theme={theme} setTheme={setTheme} />
+        <Header theme={theme} setTheme={setTheme} units={units} onUnitChange={setUnit} />
 
         <SearchSection
           searchQuery={searchQuery}
@@ -165,6 +267,19 @@ export default function Home() {
           recentSearches={recentSearches}
           favorites={favorites}
           setSelectedStation={setSelectedStation}
+          stations={loadedStations ?? noStations}
+          savedQueries={savedQueries}
+          saveQuery={saveQuery}
+          deleteQuery={deleteQuery}
+          theme={theme}
+        />
+
+        <MinimumsPanel
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          setActiveProfile={setActiveProfile}
+          saveProfile={saveProfile}
+          deleteProfile={deleteProfile}
           theme={theme}
         />
 
@@ -185,10 +300,7 @@ export default function Home() {
             Grid View
           </button>
           <button
-            onClick={() => {
-              setViewMode("map");
-              if (!allMetars) refetchAll();
-            }}
+            onClick={() => setViewMode("map")}
             className={`px-6 py-2 rounded-xl font-medium transition-all flex items-center gap-2 ${viewMode === "map"
               ? "bg-gradient-to-r from-purple-500 to-cyan-500 text-white"
               : theme === "light"
@@ -201,6 +313,41 @@ export default function Home() {
             </svg>
             Map View
           </button>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SortOption)}
+            className={`px-4 py-2 rounded-xl font-medium focus:outline-none ${theme === "light"
+              ? "bg-gray-200 text-gray-700"
+              : "bg-white/5 text-white/70 border border-white/10"
+              }`}
+            title="Sort stations"
+          >
+            {(Object.keys(sortLabels) as SortOption[]).map((option) => (
+              <option key={option} value={option} className="text-black">
+                Sort: {sortLabels[option]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={coverageRegion ?? ""}
+            onChange={(e) => setCoverageRegion(e.target.value || null)}
+            className={`px-4 py-2 rounded-xl font-medium focus:outline-none ${theme === "light"
+              ? "bg-gray-200 text-gray-700"
+              : "bg-white/5 text-white/70 border border-white/10"
+              }`}
+            title="Coverage region"
+          >
+            <option value="" className="text-black">
+              Coverage: Default
+            </option>
+            {coverageRegions.map((region) => (
+              <option key={region.id} value={region.id} className="text-black">
+                Coverage: {region.name}
+              </option>
+            ))}
+          </select>
+          <ExportMenu stations={viewMode === "map" ? mapStations : filteredStations} theme={theme} />
+          <LiveIndicator theme={theme} />
         </div>
 
         {/* Selected Station Detail */}
@@ -225,9 +372,12 @@ export default function Home() {
                   metar={selectedMetar}
                   taf={selectedTaf ?? null}
                   onClose={() => setSelectedStation(null)}
-                  tempUnit={tempUnit}
+                  units={units}
+                  minimumsProfile={minimumsProfile}
                   isFavorite={isFavorite(selectedMetar.icao)}
                   onToggleFavorite={() => toggleFavorite(selectedMetar.icao)}
+                  history={selectedHistory}
+                  outages={selectedOutages}
                 />
               ) : (
                 <div className="glass rounded-2xl p-8 text-center border border-red-500/30">
@@ -259,18 +409,43 @@ export default function Home() {
         {/* Map View */}
         {viewMode === "map" && (
           <div className="mb-20">
-            <MetarMap stations={filteredStations} onStationClick={setSelectedStation} categoryFilter={categoryFilter} />
+            {viewportRefreshFailed && (
+              <div
+                role="status"
+                className={`mb-4 rounded-xl px-4 py-3 text-sm border bg-red-500/10 border-red-500/40 ${theme === "light" ? "text-gray-800" : "text-white/80"}`}
+              >
+                <span className="font-bold text-red-400">Some areas failed to load.</span> Stations there are
+                missing, not clear; retrying.
+              </div>
+            )}
+            <MetarMap
+              stations={mapStations}
+              focusStations={mapFocus}
+              onViewportChange={setMapBounds}
+              onStationClick={setSelectedStation}
+              categoryFilter={categoryFilter}
+              minimumsProfile={minimumsProfile}
+              units={units}
+              advisories={advisories}
+              pireps={pireps}
+              hazardLayers={hazardLayers}
+              onToggleHazardLayer={toggleHazardLayer}
+            />
           </div>
         )}
 
         {/* Grid View */}
         {viewMode === "grid" && (
-          <StationGrid
-            metars={filteredStations}
-            onStationClick={setSelectedStation}
-            tempUnit={tempUnit}
-            favorites={favorites}
-          />
+          <>
+            <SnapshotStatusBanner meta={snapshotMeta} refreshFailed={snapshotRefreshFailed} theme={theme} />
+            <StationGrid
+              metars={filteredStations}
+              onStationClick={setSelectedStation}
+              units={units}
+              favorites={favorites}
+              minimumsProfile={minimumsProfile}
+            />
+          </>
         )}
       </div>
     </main>
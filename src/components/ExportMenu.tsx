@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { MetarData } from "@/types";
+import { EXPORT_FORMATS, exportFileName, ExportFormat, exportFormatLabels, serializeMetars } from "@/lib/export";
+
+function download(metars: MetarData[], format: ExportFormat) {
+    const { body, contentType } = serializeMetars(metars, format);
+    const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = exportFileName(format);
+    link.click();
+    // Revoke after the click has been handled so the download can start
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Download menu for the stations currently shown, after search and filters
+export function ExportMenu({ stations, theme }: { stations: MetarData[]; theme: "light" | "dark" }) {
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        const close = (e: MouseEvent | KeyboardEvent) => {
+            if (e instanceof KeyboardEvent ? e.key === "Escape" : !containerRef.current?.contains(e.target as Node)) {
+                setOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", close);
+        document.addEventListener("keydown", close);
+        return () => {
+            document.removeEventListener("mousedown", close);
+            document.removeEventListener("keydown", close);
+        };
+    }, [open]);
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setOpen((v) => !v)}
+                disabled={stations.length === 0}
+                aria-haspopup="menu"
+                aria-expanded={open}
+                title="Download the stations shown"
+                className={`px-4 py-2 rounded-xl font-medium flex items-center gap-2 transition-all disabled:opacity-40 ${theme === "light"
+                    ? "bg-gray-200 text-gray-700 hover:text-gray-900"
+                    : "bg-white/5 text-white/70 border border-white/10 hover:text-white"
+                    }`}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5m0 0l5-5m-5 5V4" />
+                </svg>
+                Export
+            </button>
+            {open && (
+                <div
+                    role="menu"
+                    className={`absolute right-0 mt-2 w-56 rounded-xl overflow-hidden shadow-xl z-[1000] ${theme === "light" ? "bg-white border border-gray-200" : "bg-gray-900 border border-white/10"}`}
+                >
+                    <p className={`px-4 py-2 text-xs ${theme === "light" ? "text-gray-500" : "text-white/40"}`}>
+                        {stations.length} station{stations.length === 1 ? "" : "s"}
+                    </p>
+                    {EXPORT_FORMATS.map((format) => (
+                        <button
+                            key={format}
+                            role="menuitem"
+                            onClick={() => {
+                                download(stations, format);
+                                setOpen(false);
+                            }}
+                            className={`block w-full text-left px-4 py-2 text-sm ${theme === "light" ? "text-gray-700 hover:bg-gray-100" : "text-white/80 hover:bg-white/10"}`}
+                        >
+                            {exportFormatLabels[format]}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
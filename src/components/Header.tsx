@@ -1,13 +1,19 @@
 "use client";
 
 import Link from "next/link";
+import { UnitPreferences } from "@/types";
+import { UnitSettings } from "@/components/UnitSettings";
 
 export function Header({
     theme,
     setTheme,
+    units,
+    onUnitChange,
 }: {
     theme: "light" | "dark";
     setTheme: (theme: "light" | "dark") => void;
+    units: UnitPreferences;
+    onUnitChange: <K extends keyof UnitPreferences>(kind: K, unit: UnitPreferences[K]) => void;
 }) {
     return (
         <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
@@ -22,6 +28,8 @@ export function Header({
                 </svg>
                 <span className="hidden sm:inline">Leaderboard</span>
             </Link>
+            {/* Display units */}
+            <UnitSettings units={units} onChange={onUnitChange} theme={theme} />
             {/* Theme toggle */}
             <button
                 onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
@@ -0,0 +1,32 @@
+"use client";
+
+import { formatDistanceToNowStrict } from "date-fns";
+import { useLiveStore } from "@/stores/liveStore";
+
+// Whether updates are pushed over /api/stream or polled, plus the latest flight category change
+export function LiveIndicator({ theme }: { theme: "light" | "dark" }) {
+    const { live, ingestedAt, lastCategoryChange } = useLiveStore();
+    const muted = theme === "light" ? "text-gray-500" : "text-white/50";
+
+    return (
+        <div
+            className={`px-4 py-2 rounded-xl text-sm flex items-center gap-2 ${theme === "light" ? "bg-gray-200 text-gray-700" : "bg-white/5 text-white/70 border border-white/10"}`}
+            title={
+                live
+                    ? `Receiving updates as they are ingested${ingestedAt ? ` (last ingest ${formatDistanceToNowStrict(new Date(ingestedAt), { addSuffix: true })})` : ""}`
+                    : "Live stream unavailable; refreshing every 5 minutes"
+            }
+        >
+            <span className={`w-2 h-2 rounded-full ${live ? "bg-green-400 animate-pulse" : "bg-yellow-400"}`} />
+            <span className="font-medium">{live ? "Live" : "Polling"}</span>
+            {lastCategoryChange && (
+                <span className={muted}>
+                    {lastCategoryChange.icao}{" "}
+                    <span className={`flight-${lastCategoryChange.from.toLowerCase()}`}>{lastCategoryChange.from}</span>
+                    {" → "}
+                    <span className={`flight-${lastCategoryChange.to.toLowerCase()}`}>{lastCategoryChange.to}</span>
+                </span>
+            )}
+        </div>
+    );
+}
@@ -3,8 +3,24 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
 import { format } from "date-fns";
-import { MetarData, TafData } from "@/types";
-import { cloudCoverCodes, decodeWeather } from "@/lib/metarUtils";
+import { MetarData, MinimumsProfile, ObservationRecord, OutageEvent, Runway, TafData, UnitPreferences } from "@/types";
+import { cloudCoverCodes, decodeWeather, sensorStatusCodes, stationTypeCodes } from "@/lib/metarUtils";
+import { computeDerivedWeather } from "@/lib/derivedWeather";
+import { getRunways, computeRunwayWinds, suggestRunway, runwayStrips, RunwayStrip } from "@/lib/runways";
+import { getStationInfo } from "@/lib/stationCatalog";
+import { evaluateMinimums, goNoGoStyles } from "@/lib/minimums";
+import {
+    formatAltimeter,
+    formatHeight,
+    formatTemp,
+    formatTempDelta,
+    formatVisibility,
+    formatWind,
+    metersToFeet,
+    unitLabels,
+} from "@/lib/units";
+import { TafTimeline } from "@/components/TafTimeline";
+import { TrendCharts } from "@/components/TrendCharts";
 
 // Flight category styling
 const flightCategoryStyles = {
@@ -43,7 +59,15 @@ const flightCategoryStyles = {
 };
 
 // Wind direction arrow component
-function WindArrow({ direction, speed }: { direction?: number | null; speed?: number | null }) {
+function WindArrow({
+    direction,
+    speed,
+    windUnit,
+}: {
+    direction?: number | null;
+    speed?: number | null;
+    windUnit: UnitPreferences["wind"];
+}) {
     if (direction === undefined || direction === null) {
         return <span className="text-white/50">VRB</span>;
     }
@@ -58,17 +82,18 @@ function WindArrow({ direction, speed }: { direction?: number | null; speed?: nu
                 </svg>
             </div>
             <span className="text-white/80">{direction}°</span>
-            {speed && <span className="text-cyan-400">{speed}kt</span>}
+            {speed && <span className="text-cyan-400">{formatWind(speed, windUnit)}{unitLabels.wind[windUnit]}</span>}
         </div>
     );
 }
 
 // Decoded METAR section
-function DecodedMetar({ metar, tempUnit }: { metar: MetarData; tempUnit: "C" | "F" }) {
-    const displayTemp = (temp: number | null) => {
-        if (temp === null) return "--";
-        return tempUnit === "F" ? Math.round(temp * 9 / 5 + 32) : temp;
-    };
+function DecodedMetar({ metar, units }: { metar: MetarData; units: UnitPreferences }) {
+    const remarks = metar.remarks;
+    const windLabel = unitLabels.wind[units.wind];
+    const tempLabel = unitLabels.temp[units.temp];
+    const heightLabel = unitLabels.height[units.height];
+    const visibilityLabel = unitLabels.visibility[units.visibility];
 
     return (
         <div className="bg-white/5 rounded-xl p-4 space-y-3">
@@ -86,29 +111,50 @@ function DecodedMetar({ metar, tempUnit }: { metar: MetarData; tempUnit: "C" | "
                     <span className="text-white/50">Wind:</span>
                     <span className="text-white">
                         {metar.wind_direction !== null ? `${metar.wind_direction}° at ` : "Variable "}
-                        {metar.wind_speed_kt ?? "--"}kt
-                        {metar.wind_gust_kt && ` gusting ${metar.wind_gust_kt}kt`}
+                        {formatWind(metar.wind_speed_kt, units.wind)} {windLabel}
+                        {metar.wind_gust_kt && ` gusting ${formatWind(metar.wind_gust_kt, units.wind)} ${windLabel}`}
                     </span>
                 </div>
                 <div className="flex justify-between">
                     <span className="text-white/50">Visibility:</span>
-                    <span className="text-white">{metar.visibility_sm} statute miles</span>
+                    <span className="text-white">
+                        {metar.cavok
+                            ? "CAVOK (10 km or more)"
+                            : `${formatVisibility(metar.visibility_sm, units.visibility)} ${visibilityLabel}`}
+                        {!metar.cavok && metar.visibility_unit === "m" && metar.visibility_m != null && (
+                            <span className="text-white/40"> (reported {metar.visibility_m} m)</span>
+                        )}
+                    </span>
                 </div>
+                {metar.directional_visibility && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Minimum Visibility:</span>
+                        <span className="text-white">
+                            {formatVisibility(metar.directional_visibility.distance_m / 1609.344, units.visibility)} {visibilityLabel} to
+                            the {metar.directional_visibility.direction}
+                        </span>
+                    </div>
+                )}
                 <div className="flex justify-between">
                     <span className="text-white/50">Temperature:</span>
-                    <span className="text-white">{displayTemp(metar.temperature_c)}°{tempUnit}</span>
+                    <span className="text-white">{formatTemp(metar.temperature_c, units.temp)}{tempLabel}</span>
                 </div>
                 <div className="flex justify-between">
                     <span className="text-white/50">Dewpoint:</span>
-                    <span className="text-white">{displayTemp(metar.dewpoint_c)}°{tempUnit}</span>
+                    <span className="text-white">{formatTemp(metar.dewpoint_c, units.temp)}{tempLabel}</span>
                 </div>
                 <div className="flex justify-between">
                     <span className="text-white/50">Altimeter:</span>
-                    <span className="text-white">{metar.altimeter_hg?.toFixed(2) ?? "--"} inHg</span>
+                    <span className="text-white">
+                        {formatAltimeter(metar.altimeter_hg, units.pressure)} {unitLabels.pressure[units.pressure]}
+                        {metar.altimeter_unit && metar.altimeter_unit !== units.pressure && (
+                            <span className="text-white/40"> (reported in {metar.altimeter_unit})</span>
+                        )}
+                    </span>
                 </div>
                 <div className="flex justify-between">
                     <span className="text-white/50">Elevation:</span>
-                    <span className="text-white">{Math.round(metar.elevation_m)} m / {Math.round(metar.elevation_m * 3.281)} ft</span>
+                    <span className="text-white">{formatHeight(metersToFeet(metar.elevation_m), units.height)} {heightLabel}</span>
                 </div>
                 {metar.clouds.length > 0 && (
                     <div className="col-span-2">
@@ -116,7 +162,7 @@ function DecodedMetar({ metar, tempUnit }: { metar: MetarData; tempUnit: "C" | "
                         <span className="text-white">
                             {metar.clouds.map((c, i) => (
                                 <span key={i}>
-                                    {cloudCoverCodes[c.cover] || c.cover} at {c.base_ft.toLocaleString()} ft
+                                    {cloudCoverCodes[c.cover] || c.cover} at {formatHeight(c.base_ft, units.height)} {heightLabel}
                                     {i < metar.clouds.length - 1 && ", "}
                                 </span>
                             ))}
@@ -131,10 +177,91 @@ function DecodedMetar({ metar, tempUnit }: { metar: MetarData; tempUnit: "C" | "
                         </span>
                     </div>
                 )}
+                {metar.trend && metar.trend.length > 0 && (
+                    <div className="col-span-2">
+                        <span className="text-white/50">Trend: </span>
+                        <span className="text-white">
+                            {metar.trend.map((t, i) => (
+                                <span key={i} className="font-mono text-cyan-300">
+                                    {t.type === "NOSIG" ? "NOSIG (no significant change expected)" : t.raw}
+                                    {i < metar.trend!.length - 1 && "; "}
+                                </span>
+                            ))}
+                        </span>
+                    </div>
+                )}
+                {remarks?.station_type && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Station Type:</span>
+                        <span className="text-white" title={stationTypeCodes[remarks.station_type]}>
+                            {remarks.station_type}
+                        </span>
+                    </div>
+                )}
+                {remarks?.sea_level_pressure_hpa !== null && remarks?.sea_level_pressure_hpa !== undefined && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Sea Level Pressure:</span>
+                        <span className="text-white">{remarks.sea_level_pressure_hpa.toFixed(1)} hPa</span>
+                    </div>
+                )}
+                {remarks?.precise_temperature_c !== null && remarks?.precise_temperature_c !== undefined && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Precise Temp/Dew:</span>
+                        <span className="text-white">
+                            {formatTemp(remarks.precise_temperature_c, units.temp, 1)} /{" "}
+                            {formatTemp(remarks.precise_dewpoint_c, units.temp, 1)}{tempLabel}
+                        </span>
+                    </div>
+                )}
+                {remarks?.pressure_tendency && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">3hr Pressure Change:</span>
+                        <span className="text-white">
+                            {remarks.pressure_tendency.change_hpa > 0 ? "+" : ""}
+                            {remarks.pressure_tendency.change_hpa.toFixed(1)} hPa
+                        </span>
+                    </div>
+                )}
+                {remarks?.peak_wind && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Peak Wind:</span>
+                        <span className="text-white">
+                            {remarks.peak_wind.direction}° at {formatWind(remarks.peak_wind.speed_kt, units.wind)} {windLabel} (
+                            {remarks.peak_wind.time})
+                        </span>
+                    </div>
+                )}
+                {remarks?.wind_shift && (
+                    <div className="flex justify-between">
+                        <span className="text-white/50">Wind Shift:</span>
+                        <span className="text-white">
+                            {remarks.wind_shift.time}
+                            {remarks.wind_shift.frontal_passage && " (frontal passage)"}
+                        </span>
+                    </div>
+                )}
+                {remarks && remarks.sensor_status.length > 0 && (
+                    <div className="col-span-2">
+                        <span className="text-white/50">Sensor Status: </span>
+                        <span className="inline-flex flex-wrap gap-2 align-middle">
+                            {remarks.sensor_status.map((s, i) => (
+                                <span
+                                    key={i}
+                                    title={sensorStatusCodes[s.indicator]}
+                                    className="px-2 py-0.5 rounded bg-orange-500/20 text-orange-400 border border-orange-500/50 text-xs font-bold"
+                                >
+                                    {s.indicator}
+                                    {s.location && ` ${s.location}`}
+                                </span>
+                            ))}
+                        </span>
+                    </div>
+                )}
                 <div className="col-span-2 flex justify-between">
                     <span className="text-white/50">Coordinates:</span>
                     <span className="text-white/70 font-mono text-xs">
-                        {metar.latitude?.toFixed(4)}°N, {metar.longitude?.toFixed(4)}°W
+                        {Math.abs(metar.latitude).toFixed(4)}°{metar.latitude >= 0 ? "N" : "S"},{" "}
+                        {Math.abs(metar.longitude).toFixed(4)}°{metar.longitude >= 0 ? "E" : "W"}
                     </span>
                 </div>
             </div>
@@ -142,8 +269,129 @@ function DecodedMetar({ metar, tempUnit }: { metar: MetarData; tempUnit: "C" | "
     );
 }
 
+// Runway diagram with the wind arrow overlaid, plus per-runway components
+function RunwayWindSection({ metar, units }: { metar: MetarData; units: UnitPreferences }) {
+    const runways = getRunways(metar.icao);
+    if (runways.length === 0) return null;
+
+    const winds = computeRunwayWinds(runways, metar);
+    const best = suggestRunway(winds);
+    const maxLength = Math.max(...runways.map((r) => r.length_ft));
+
+    // Each physical runway once, drawn from its 01-18 end; parallels are spread across the diagram
+    const strips = runwayStrips(runways);
+    const offsetFor = (strip: RunwayStrip) => strip.offset * 24;
+    const isBest = (r?: Runway) => !!r && best?.runway.ident === r.ident;
+
+    const windLabel = unitLabels.wind[units.wind];
+    const describeHeadwind = (kt: number | null) =>
+        kt === null
+            ? "--"
+            : kt >= 0
+                ? `${formatWind(kt, units.wind)}${windLabel} head`
+                : `${formatWind(-kt, units.wind)}${windLabel} tail`;
+    const describeCrosswind = (kt: number | null) =>
+        kt === null
+            ? "--"
+            : kt === 0
+                ? `0${windLabel}`
+                : `${formatWind(Math.abs(kt), units.wind)}${windLabel} ${kt > 0 ? "R" : "L"}`;
+
+    return (
+        <div className="bg-white/5 rounded-xl p-4 mb-6">
+            <h4 className="text-sm font-bold text-white/70 uppercase tracking-wide mb-3">Runway Winds</h4>
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="relative w-48 h-48 mx-auto flex-shrink-0">
+                    <svg viewBox="-100 -100 200 200" className="w-full h-full">
+                        <circle r="96" fill="none" stroke="rgba(255,255,255,0.1)" />
+                        <text y="-84" textAnchor="middle" className="fill-white/40 text-[10px]">N</text>
+                        {strips.map((strip) => {
+                            const { runway, reciprocal } = strip;
+                            const length = 150 * (runway.length_ft / maxLength);
+                            const highlighted = isBest(runway) || isBest(reciprocal);
+                            return (
+                                <g key={runway.ident} transform={`rotate(${runway.heading_true}) translate(${offsetFor(strip)} 0)`}>
+                                    <rect
+                                        x={-5}
+                                        y={-length / 2}
+                                        width={10}
+                                        height={length}
+                                        fill={highlighted ? "rgba(34,211,238,0.6)" : "rgba(255,255,255,0.25)"}
+                                        stroke={highlighted ? "#22d3ee" : "rgba(255,255,255,0.4)"}
+                                    />
+                                    <text y={length / 2 + 10} textAnchor="middle" className="fill-white/70 text-[9px]">
+                                        {runway.ident}
+                                    </text>
+                                    {reciprocal && (
+                                        <text
+                                            y={-length / 2 - 4}
+                                            textAnchor="middle"
+                                            className="fill-white/70 text-[9px]"
+                                            transform={`rotate(180 0 ${-length / 2 - 7})`}
+                                        >
+                                            {reciprocal.ident}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                    </svg>
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="bg-black/60 rounded-lg px-2 py-1">
+                            <WindArrow direction={metar.wind_direction} speed={metar.wind_speed_kt} windUnit={units.wind} />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-x-auto">
+                    {best && (
+                        <p className="text-sm text-white/70 mb-2">
+                            Suggested runway:{" "}
+                            <span className="font-bold text-cyan-400">{best.runway.ident}</span>
+                            {best.headwind_kt === null && (
+                                <span className="text-white/40"> (variable wind, longest runway)</span>
+                            )}
+                        </p>
+                    )}
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-white/50 text-left">
+                                <th className="py-1 pr-2">Rwy</th>
+                                <th className="py-1 pr-2">Hdg (T)</th>
+                                <th className="py-1 pr-2">Length</th>
+                                <th className="py-1 pr-2">Head/Tail</th>
+                                <th className="py-1 pr-2">Crosswind</th>
+                                <th className="py-1">Gust X-wind</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {winds.map((w) => (
+                                <tr
+                                    key={w.runway.ident}
+                                    className={`border-t border-white/5 ${isBest(w.runway) ? "text-cyan-400 font-bold" : "text-white/80"}`}
+                                >
+                                    <td className="py-1 pr-2">{w.runway.ident}</td>
+                                    <td className="py-1 pr-2">{String(w.runway.heading_true).padStart(3, "0")}°</td>
+                                    <td className="py-1 pr-2">
+                                        {formatHeight(w.runway.length_ft, units.height)} {unitLabels.height[units.height]}
+                                    </td>
+                                    <td className={`py-1 pr-2 ${w.headwind_kt !== null && w.headwind_kt < 0 ? "text-orange-400" : ""}`}>
+                                        {describeHeadwind(w.headwind_kt)}
+                                    </td>
+                                    <td className="py-1 pr-2">{describeCrosswind(w.crosswind_kt)}</td>
+                                    <td className="py-1">{describeCrosswind(w.gust_crosswind_kt)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
+
 // TAF display component
-function TafDisplay({ taf }: { taf: TafData }) {
+function TafDisplay({ taf, metar, units }: { taf: TafData; metar: MetarData; units: UnitPreferences }) {
     return (
         <div className="bg-white/5 rounded-xl p-4 space-y-3">
             <h4 className="text-sm font-bold text-white/70 uppercase tracking-wide flex items-center gap-2">
@@ -151,7 +399,10 @@ function TafDisplay({ taf }: { taf: TafData }) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
                 Terminal Aerodrome Forecast
+                {taf.is_amended && <span className="text-xs text-yellow-400 normal-case">(Amended)</span>}
+                {taf.is_corrected && <span className="text-xs text-yellow-400 normal-case">(Corrected)</span>}
             </h4>
+            <TafTimeline taf={taf} metar={metar} units={units} />
             <div className="bg-black/40 rounded-lg p-3 font-mono text-xs text-cyan-300 overflow-x-auto whitespace-pre-wrap">
                 {taf.raw}
             </div>
@@ -167,19 +418,29 @@ export function MetarDetailCard({
     metar,
     taf,
     onClose,
-    tempUnit,
+    units,
+    minimumsProfile = null,
     isFavorite,
     onToggleFavorite,
+    history = [],
+    outages = [],
 }: {
     metar: MetarData;
     taf: TafData | null;
     onClose: () => void;
-    tempUnit: "C" | "F";
+    units: UnitPreferences;
+    minimumsProfile?: MinimumsProfile | null;
     isFavorite: boolean;
     onToggleFavorite: () => void;
+    history?: ObservationRecord[];
+    outages?: OutageEvent[];
 }) {
     const styles = flightCategoryStyles[metar.flight_category];
     const [copied, setCopied] = useState(false);
+    const derived = computeDerivedWeather(metar);
+    const minimums = minimumsProfile ? evaluateMinimums(metar, minimumsProfile) : null;
+    const elevationFt = Math.round(metersToFeet(metar.elevation_m));
+    const station = getStationInfo(metar.icao);
 
     const copyToClipboard = async () => {
         await navigator.clipboard.writeText(metar.raw);
@@ -187,10 +448,8 @@ export function MetarDetailCard({
         setTimeout(() => setCopied(false), 2000);
     };
 
-    const displayTemp = (temp: number | null) => {
-        if (temp === null) return "--";
-        return tempUnit === "F" ? Math.round(temp * 9 / 5 + 32) : temp;
-    };
+    const tempLabel = unitLabels.temp[units.temp];
+    const heightLabel = unitLabels.height[units.height];
 
     return (
         <motion.div
@@ -231,7 +490,30 @@ export function MetarDetailCard({
                         )}
                     </div>
                     <p className="text-white/70 text-sm">{metar.station_name}</p>
+                    {station && (
+                        <p className="text-white/50 text-xs mt-1">
+                            {[
+                                [station.city, station.state ?? station.country].join(", "),
+                                [station.iata, station.faa].filter((id, i, ids) => id && ids.indexOf(id) === i).join("/"),
+                                station.timezone,
+                                station.sensor,
+                            ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                        </p>
+                    )}
                     <p className="text-white/40 text-xs mt-1">{styles.label}</p>
+                    {minimums && minimumsProfile && (
+                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                            <span className={`px-2 py-0.5 rounded font-bold border ${goNoGoStyles[minimums.status].badge}`}>
+                                {minimums.status}
+                            </span>
+                            <span className="text-white/50">
+                                {minimumsProfile.name}
+                                {minimums.reasons.length > 0 && `: ${minimums.reasons.join(", ")}`}
+                            </span>
+                        </div>
+                    )}
                 </div>
                 <button
                     onClick={onClose}
@@ -267,51 +549,52 @@ export function MetarDetailCard({
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">WIND</p>
-                    <WindArrow direction={metar.wind_direction} speed={metar.wind_speed_kt} />
+                    <WindArrow direction={metar.wind_direction} speed={metar.wind_speed_kt} windUnit={units.wind} />
                     {metar.wind_gust_kt && (
-                        <p className="text-xs text-orange-400 mt-1">Gusts: {metar.wind_gust_kt}kt</p>
+                        <p className="text-xs text-orange-400 mt-1">
+                            Gusts: {formatWind(metar.wind_gust_kt, units.wind)}
+                            {unitLabels.wind[units.wind]}
+                        </p>
                     )}
                 </div>
 
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">VISIBILITY</p>
                     <p className="text-2xl font-bold text-white">
-                        {metar.visibility_sm}
-                        <span className="text-sm text-white/50 ml-1">SM</span>
+                        {formatVisibility(metar.visibility_sm, units.visibility)}
+                        <span className="text-sm text-white/50 ml-1">{unitLabels.visibility[units.visibility]}</span>
                     </p>
                 </div>
 
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">TEMPERATURE</p>
                     <p className="text-2xl font-bold text-white">
-                        {displayTemp(metar.temperature_c)}
-                        <span className="text-sm text-white/50 ml-1">°{tempUnit}</span>
+                        {formatTemp(metar.temperature_c, units.temp)}
+                        <span className="text-sm text-white/50 ml-1">{tempLabel}</span>
                     </p>
                 </div>
 
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">DEWPOINT</p>
                     <p className="text-2xl font-bold text-white">
-                        {displayTemp(metar.dewpoint_c)}
-                        <span className="text-sm text-white/50 ml-1">°{tempUnit}</span>
+                        {formatTemp(metar.dewpoint_c, units.temp)}
+                        <span className="text-sm text-white/50 ml-1">{tempLabel}</span>
                     </p>
                 </div>
 
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">ALTIMETER</p>
                     <p className="text-2xl font-bold text-white">
-                        {metar.altimeter_hg?.toFixed(2) ?? "--"}
-                        <span className="text-sm text-white/50 ml-1">inHg</span>
+                        {formatAltimeter(metar.altimeter_hg, units.pressure)}
+                        <span className="text-sm text-white/50 ml-1">{unitLabels.pressure[units.pressure]}</span>
                     </p>
                 </div>
 
                 <div className="bg-white/5 rounded-xl p-4">
                     <p className="text-xs text-white/50 mb-2">TEMP/DEW SPREAD</p>
                     <p className="text-2xl font-bold text-white">
-                        {metar.temperature_c !== null && metar.dewpoint_c !== null
-                            ? metar.temperature_c - metar.dewpoint_c
-                            : "--"}
-                        <span className="text-sm text-white/50 ml-1">°C</span>
+                        {formatTempDelta(derived.temp_dewpoint_spread_c, units.temp)}
+                        <span className="text-sm text-white/50 ml-1">{tempLabel}</span>
                     </p>
                 </div>
 
@@ -323,13 +606,79 @@ export function MetarDetailCard({
                 </div>
             </div>
 
+            {/* Derived Values */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className="bg-white/5 rounded-xl p-4">
+                    <p className="text-xs text-white/50 mb-2">PRESSURE ALTITUDE</p>
+                    <p className="text-2xl font-bold text-white">
+                        {formatHeight(derived.pressure_altitude_ft, units.height)}
+                        <span className="text-sm text-white/50 ml-1">{heightLabel}</span>
+                    </p>
+                </div>
+
+                <div className="bg-white/5 rounded-xl p-4">
+                    <p className="text-xs text-white/50 mb-2">DENSITY ALTITUDE</p>
+                    <p
+                        className={`text-2xl font-bold ${derived.density_altitude_ft !== null && derived.density_altitude_ft - elevationFt > 2000
+                            ? "text-orange-400"
+                            : "text-white"
+                            }`}
+                    >
+                        {formatHeight(derived.density_altitude_ft, units.height)}
+                        <span className="text-sm text-white/50 ml-1">{heightLabel}</span>
+                    </p>
+                </div>
+
+                <div className="bg-white/5 rounded-xl p-4">
+                    <p className="text-xs text-white/50 mb-2">RELATIVE HUMIDITY</p>
+                    <p className="text-2xl font-bold text-white">
+                        {derived.relative_humidity_pct ?? "--"}
+                        <span className="text-sm text-white/50 ml-1">%</span>
+                    </p>
+                </div>
+
+                <div className="bg-white/5 rounded-xl p-4">
+                    <p className="text-xs text-white/50 mb-2">EST. CLOUD BASE</p>
+                    <p className="text-2xl font-bold text-white">
+                        {formatHeight(derived.estimated_cloud_base_ft_agl, units.height)}
+                        <span className="text-sm text-white/50 ml-1">{heightLabel} AGL</span>
+                    </p>
+                </div>
+
+                {derived.heat_index_c !== null && (
+                    <div className="bg-white/5 rounded-xl p-4">
+                        <p className="text-xs text-white/50 mb-2">HEAT INDEX</p>
+                        <p className="text-2xl font-bold text-red-400">
+                            {formatTemp(derived.heat_index_c, units.temp)}
+                            <span className="text-sm text-white/50 ml-1">{tempLabel}</span>
+                        </p>
+                    </div>
+                )}
+
+                {derived.wind_chill_c !== null && (
+                    <div className="bg-white/5 rounded-xl p-4">
+                        <p className="text-xs text-white/50 mb-2">WIND CHILL</p>
+                        <p className="text-2xl font-bold text-cyan-400">
+                            {formatTemp(derived.wind_chill_c, units.temp)}
+                            <span className="text-sm text-white/50 ml-1">{tempLabel}</span>
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {/* Recent trends */}
+            <TrendCharts observations={history} outages={outages} units={units} />
+
+            {/* Runway Winds */}
+            <RunwayWindSection metar={metar} units={units} />
+
             {/* Decoded METAR */}
-            <DecodedMetar metar={metar} tempUnit={tempUnit} />
+            <DecodedMetar metar={metar} units={units} />
 
             {/* TAF Section */}
             {taf && (
                 <div className="mt-6">
-                    <TafDisplay taf={taf} />
+                    <TafDisplay taf={taf} metar={metar} units={units} />
                 </div>
             )}
         </motion.div>
@@ -1,10 +1,21 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, CircleMarker, Polygon, Polyline, Popup, useMap, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { MetarData } from "@/hooks/useMetar";
+import { Advisory, BoundingBox, HazardLayer, MinimumsProfile, PilotReport, UnitPreferences } from "@/types";
+import {
+  advisoryLayers,
+  formatAdvisoryLevels,
+  hazardColors,
+  hazardLabels,
+  hazardLayerLabels,
+  pirepHazard,
+} from "@/lib/advisories";
+import { evaluateMinimums, goNoGoStyles } from "@/lib/minimums";
+import { formatTemp, formatVisibility, formatWind, unitLabels } from "@/lib/units";
 
 // Flight category colors
 const categoryColors = {
@@ -14,27 +25,192 @@ const categoryColors = {
   LIFR: "#a855f7",
 };
 
-// Component to fit bounds when stations change
+// Component to fit bounds when the set of focused stations changes. Keyed on the
+// station IDs so that viewport loading adding markers doesn't move the map.
 function FitBounds({ stations }: { stations: MetarData[] }) {
   const map = useMap();
+  const key = stations.map((s) => s.icao).sort().join(",");
+  const stationsRef = useRef(stations);
+  stationsRef.current = stations;
 
   useEffect(() => {
-    if (stations.length > 0) {
+    const focused = stationsRef.current.filter((s) => s.latitude && s.longitude);
+    if (focused.length > 0) {
       const bounds = L.latLngBounds(
-        stations.map((s) => [s.latitude, s.longitude] as [number, number])
+        focused.map((s) => [s.latitude, s.longitude] as [number, number])
       );
-      map.fitBounds(bounds, { padding: [50, 50] });
+      map.fitBounds(bounds, { padding: [50, 50], maxZoom: 9 });
     }
-  }, [stations, map]);
+  }, [key, map]);
 
   return null;
 }
 
+// Viewport padding so stations just off-screen are already loaded when panning
+const VIEWPORT_PAD = 0.2;
+
+// Component to report the padded viewport on mount and after every pan/zoom
+function reportViewport(map: L.Map, onChange: (bounds: BoundingBox) => void) {
+  const bounds = map.getBounds().pad(VIEWPORT_PAD);
+  onChange({
+    minLat: bounds.getSouth(),
+    minLon: bounds.getWest(),
+    maxLat: bounds.getNorth(),
+    maxLon: bounds.getEast(),
+  });
+}
+
+function ViewportWatcher({ onChange }: { onChange: (bounds: BoundingBox) => void }) {
+  // Latest callback, so a new one from the parent doesn't re-report the viewport
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const map = useMapEvents({
+    moveend: () => reportViewport(map, onChangeRef.current),
+  });
+
+  useEffect(() => {
+    reportViewport(map, onChangeRef.current);
+  }, [map]);
+
+  return null;
+}
+
+// Line style per product: SIGMETs solid, AIRMETs dashed, G-AIRMETs dotted
+const advisoryDash: Record<Advisory["product"], string | undefined> = {
+  SIGMET: undefined,
+  AIRMET: "8 6",
+  "G-AIRMET": "2 6",
+};
+
+const hazardLayerOrder: HazardLayer[] = ["sigmet", "airmet", "gairmet", "pirep"];
+
+function formatValidTime(iso: string) {
+  return `${iso.slice(8, 10)}/${iso.slice(11, 16).replace(":", "")}Z`;
+}
+
+function AdvisoryPopup({ advisory }: { advisory: Advisory }) {
+  const levels = formatAdvisoryLevels(advisory);
+  return (
+    <Popup>
+      <div className="text-sm max-w-xs">
+        <p className="font-bold">
+          {advisory.product}{" "}
+          <span
+            className="inline-block px-2 py-0.5 rounded text-white text-xs font-bold"
+            style={{ backgroundColor: hazardColors[advisory.hazard] }}
+          >
+            {hazardLabels[advisory.hazard]}
+          </span>
+          {advisory.severity && <span className="ml-1 text-xs text-gray-600">{advisory.severity}</span>}
+        </p>
+        <p className="mt-1 text-xs">
+          <span className="text-gray-500">Valid:</span>{" "}
+          {advisory.forecast_hour !== null
+            ? `${formatValidTime(advisory.valid_from)} (+${advisory.forecast_hour}h)`
+            : `${formatValidTime(advisory.valid_from)}–${formatValidTime(advisory.valid_to)}`}
+        </p>
+        {levels && (
+          <p className="text-xs">
+            <span className="text-gray-500">Levels:</span> {levels}
+          </p>
+        )}
+        {advisory.description && <p className="text-xs text-gray-600">{advisory.description}</p>}
+        {advisory.raw && (
+          <pre className="mt-2 max-h-32 overflow-auto whitespace-pre-wrap text-[10px] leading-tight">{advisory.raw}</pre>
+        )}
+      </div>
+    </Popup>
+  );
+}
+
+function AdvisoryShape({ advisory }: { advisory: Advisory }) {
+  const positions = advisory.coordinates.map((c) => [c.lat, c.lon] as [number, number]);
+  const pathOptions = {
+    color: hazardColors[advisory.hazard],
+    weight: advisory.product === "SIGMET" ? 2 : 1.5,
+    dashArray: advisoryDash[advisory.product],
+    fillOpacity: 0.15,
+  };
+  if (advisory.geometry === "line") {
+    return (
+      <Polyline positions={positions} pathOptions={pathOptions}>
+        <AdvisoryPopup advisory={advisory} />
+      </Polyline>
+    );
+  }
+  return (
+    <Polygon positions={positions} pathOptions={pathOptions}>
+      <AdvisoryPopup advisory={advisory} />
+    </Polygon>
+  );
+}
+
+function PirepMarker({ pirep }: { pirep: PilotReport }) {
+  const hazard = pirepHazard(pirep);
+  const color = hazard ? hazardColors[hazard] : "#9ca3af";
+  return (
+    <CircleMarker
+      center={[pirep.latitude, pirep.longitude]}
+      radius={5}
+      pathOptions={{
+        fillColor: color,
+        fillOpacity: 0.9,
+        // Urgent (UUA) reports get a red outline
+        color: pirep.urgent ? "#dc2626" : "#f8fafc",
+        weight: pirep.urgent ? 3 : 1,
+      }}
+    >
+      <Popup>
+        <div className="text-sm max-w-xs">
+          <p className="font-bold">
+            {pirep.urgent ? "Urgent PIREP" : "PIREP"}
+            {pirep.aircraft && <span className="ml-1 text-xs text-gray-600">{pirep.aircraft}</span>}
+          </p>
+          <p className="text-xs">
+            <span className="text-gray-500">Observed:</span> {formatValidTime(pirep.observed_at)}
+            {pirep.altitude_ft !== null && (
+              <>
+                {" "}
+                <span className="text-gray-500">at</span> {pirep.altitude_ft.toLocaleString()} ft
+              </>
+            )}
+          </p>
+          {pirep.turbulence && (
+            <p className="text-xs">
+              <span className="text-gray-500">Turbulence:</span> {pirep.turbulence}
+            </p>
+          )}
+          {pirep.icing && (
+            <p className="text-xs">
+              <span className="text-gray-500">Icing:</span> {pirep.icing}
+            </p>
+          )}
+          {pirep.weather && (
+            <p className="text-xs">
+              <span className="text-gray-500">Weather:</span> {pirep.weather}
+            </p>
+          )}
+          <pre className="mt-2 whitespace-pre-wrap text-[10px] leading-tight">{pirep.raw}</pre>
+        </div>
+      </Popup>
+    </CircleMarker>
+  );
+}
+
 interface MetarMapProps {
   stations: MetarData[];
   onStationClick: (icao: string) => void;
   selectedStation?: string | null;
   categoryFilter: "all" | "VFR" | "MVFR" | "IFR" | "LIFR";
+  minimumsProfile?: MinimumsProfile | null;
+  units: UnitPreferences;
+  // Stations to zoom to, e.g. the current search results
+  focusStations?: MetarData[];
+  onViewportChange?: (bounds: BoundingBox) => void;
+  advisories?: Advisory[];
+  pireps?: PilotReport[];
+  hazardLayers?: HazardLayer[];
+  onToggleHazardLayer?: (layer: HazardLayer) => void;
 }
 
 export default function MetarMap({
@@ -42,7 +218,16 @@ export default function MetarMap({
   onStationClick,
   selectedStation,
   categoryFilter,
+  minimumsProfile = null,
+  units,
+  focusStations = [],
+  onViewportChange,
+  advisories = [],
+  pireps = [],
+  hazardLayers = [],
+  onToggleHazardLayer,
 }: MetarMapProps) {
+  const windLabel = unitLabels.wind[units.wind];
   const mapRef = useRef<L.Map | null>(null);
   const [isClient, setIsClient] = useState(false);
 
@@ -60,6 +245,11 @@ export default function MetarMap({
       (categoryFilter === "all" || s.flight_category === categoryFilter)
   );
 
+  const visibleAdvisories = advisories.filter(
+    (a) => a.coordinates.length > 1 && hazardLayers.includes(advisoryLayers[a.product])
+  );
+  const visiblePireps = hazardLayers.includes("pirep") ? pireps : [];
+
   if (!isClient) {
     return (
       <div className="w-full h-[500px] bg-black/30 rounded-2xl flex items-center justify-center">
@@ -69,7 +259,26 @@ export default function MetarMap({
   }
 
   return (
-    <div className="w-full h-[500px] rounded-2xl overflow-hidden border border-white/10">
+    <div className="relative w-full h-[500px] rounded-2xl overflow-hidden border border-white/10">
+      {onToggleHazardLayer && (
+        <div className="absolute top-2 right-2 z-[1000] flex gap-1 bg-black/60 rounded-lg p-1">
+          {hazardLayerOrder.map((layer) => {
+            const active = hazardLayers.includes(layer);
+            return (
+              <button
+                key={layer}
+                onClick={() => onToggleHazardLayer(layer)}
+                aria-pressed={active}
+                className={`px-2 py-1 rounded text-xs font-bold transition-colors ${
+                  active ? "bg-purple-500 text-white" : "text-gray-300 hover:bg-white/10"
+                }`}
+              >
+                {hazardLayerLabels[layer]}
+              </button>
+            );
+          })}
+        </div>
+      )}
       <MapContainer
         center={[39.8283, -98.5795]} // Center of US
         zoom={4}
@@ -80,61 +289,89 @@ export default function MetarMap({
           attribution='&copy; <a href="https://carto.com/">CARTO</a>'
           url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
         />
-        <FitBounds stations={validStations} />
-        {validStations.map((station) => (
-          <CircleMarker
-            key={station.icao}
-            center={[station.latitude, station.longitude]}
-            radius={selectedStation === station.icao ? 12 : 6}
-            pathOptions={{
-              fillColor: categoryColors[station.flight_category],
-              fillOpacity: station.has_maintenance_flag ? 0.5 : 0.9,
-              color: station.has_maintenance_flag ? "#f97316" : categoryColors[station.flight_category],
-              weight: selectedStation === station.icao ? 3 : 1,
-            }}
-            eventHandlers={{
-              click: () => onStationClick(station.icao),
-            }}
-          >
-            <Popup>
-              <div className="text-sm">
-                <p className="font-bold text-lg">{station.icao}</p>
-                <p className="text-gray-600 text-xs mb-2">{station.station_name}</p>
-                <p>
-                  <span
-                    className="inline-block px-2 py-0.5 rounded text-white text-xs font-bold"
-                    style={{ backgroundColor: categoryColors[station.flight_category] }}
-                  >
-                    {station.flight_category}
-                  </span>
-                  {station.has_maintenance_flag && (
-                    <span className="inline-block ml-1 px-2 py-0.5 rounded bg-orange-500 text-white text-xs font-bold">
-                      $
+        <FitBounds stations={focusStations} />
+        {onViewportChange && <ViewportWatcher onChange={onViewportChange} />}
+        {visibleAdvisories.map((advisory) => (
+          <AdvisoryShape key={advisory.id} advisory={advisory} />
+        ))}
+        {validStations.map((station) => {
+          const minimums = minimumsProfile ? evaluateMinimums(station, minimumsProfile) : null;
+          return (
+            <CircleMarker
+              key={station.icao}
+              center={[station.latitude, station.longitude]}
+              radius={selectedStation === station.icao ? 12 : 6}
+              pathOptions={{
+                fillColor: categoryColors[station.flight_category],
+                fillOpacity: station.has_maintenance_flag ? 0.5 : 0.9,
+                // Outline shows the maintenance flag first, then the GO/NO-GO result for the active profile
+                color: station.has_maintenance_flag
+                  ? "#f97316"
+                  : minimums
+                    ? goNoGoStyles[minimums.status].color
+                    : categoryColors[station.flight_category],
+                weight: selectedStation === station.icao ? 3 : minimums ? 2 : 1,
+              }}
+              eventHandlers={{
+                click: () => onStationClick(station.icao),
+              }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <p className="font-bold text-lg">{station.icao}</p>
+                  <p className="text-gray-600 text-xs mb-2">{station.station_name}</p>
+                  <p>
+                    <span
+                      className="inline-block px-2 py-0.5 rounded text-white text-xs font-bold"
+                      style={{ backgroundColor: categoryColors[station.flight_category] }}
+                    >
+                      {station.flight_category}
                     </span>
-                  )}
-                </p>
-                <p className="mt-2 text-xs">
-                  <span className="text-gray-500">Temp:</span>{" "}
-                  {station.temperature_c !== null ? `${station.temperature_c}°C` : "--"}
-                </p>
-                <p className="text-xs">
-                  <span className="text-gray-500">Wind:</span>{" "}
-                  {station.wind_direction !== null ? `${station.wind_direction}°` : "--"} @{" "}
-                  {station.wind_speed_kt ?? "--"}kt
-                  {station.wind_gust_kt && ` G${station.wind_gust_kt}kt`}
-                </p>
-                <p className="text-xs">
-                  <span className="text-gray-500">Vis:</span> {station.visibility_sm}SM
-                </p>
-                <button
-                  onClick={() => onStationClick(station.icao)}
-                  className="mt-2 w-full px-3 py-1 bg-purple-500 text-white rounded text-xs hover:bg-purple-600"
-                >
-                  View Details
-                </button>
-              </div>
-            </Popup>
-          </CircleMarker>
+                    {station.has_maintenance_flag && (
+                      <span className="inline-block ml-1 px-2 py-0.5 rounded bg-orange-500 text-white text-xs font-bold">
+                        $
+                      </span>
+                    )}
+                    {minimums && (
+                      <span
+                        className="inline-block ml-1 px-2 py-0.5 rounded text-white text-xs font-bold"
+                        style={{ backgroundColor: goNoGoStyles[minimums.status].color }}
+                        title={minimums.reasons.join("\n")}
+                      >
+                        {minimums.status}
+                      </span>
+                    )}
+                  </p>
+                  <p className="mt-2 text-xs">
+                    <span className="text-gray-500">Temp:</span>{" "}
+                    {formatTemp(station.temperature_c, units.temp)}
+                    {station.temperature_c !== null && unitLabels.temp[units.temp]}
+                  </p>
+                  <p className="text-xs">
+                    <span className="text-gray-500">Wind:</span>{" "}
+                    {station.wind_direction !== null ? `${station.wind_direction}°` : "--"} @{" "}
+                    {formatWind(station.wind_speed_kt, units.wind)}
+                    {windLabel}
+                    {station.wind_gust_kt && ` G${formatWind(station.wind_gust_kt, units.wind)}${windLabel}`}
+                  </p>
+                  <p className="text-xs">
+                    <span className="text-gray-500">Vis:</span>{" "}
+                    {formatVisibility(station.visibility_sm, units.visibility)}
+                    {unitLabels.visibility[units.visibility]}
+                  </p>
+                  <button
+                    onClick={() => onStationClick(station.icao)}
+                    className="mt-2 w-full px-3 py-1 bg-purple-500 text-white rounded text-xs hover:bg-purple-600"
+                  >
+                    View Details
+                  </button>
+                </div>
+              </Popup>
+            </CircleMarker>
+          );
+        })}
+        {visiblePireps.map((pirep) => (
+          <PirepMarker key={pirep.id} pirep={pirep} />
         ))}
       </MapContainer>
     </div>
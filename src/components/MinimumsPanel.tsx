@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { MinimumsProfile } from "@/types";
+
+const limitFields: Array<{ key: keyof Omit<MinimumsProfile, "id" | "name">; label: string; unit: string; step: number }> = [
+    { key: "ceiling_ft", label: "Min ceiling", unit: "ft", step: 100 },
+    { key: "visibility_sm", label: "Min visibility", unit: "SM", step: 0.25 },
+    { key: "max_wind_kt", label: "Max wind", unit: "kt", step: 1 },
+    { key: "max_gust_kt", label: "Max gust", unit: "kt", step: 1 },
+    { key: "max_crosswind_kt", label: "Max crosswind", unit: "kt", step: 1 },
+];
+
+export function MinimumsPanel({
+    profiles,
+    activeProfileId,
+    setActiveProfile,
+    saveProfile,
+    deleteProfile,
+    theme,
+}: {
+    profiles: MinimumsProfile[];
+    activeProfileId: string | null;
+    setActiveProfile: (id: string | null) => void;
+    saveProfile: (profile: MinimumsProfile) => void;
+    deleteProfile: (id: string) => void;
+    theme: "light" | "dark";
+}) {
+    const [draft, setDraft] = useState<MinimumsProfile | null>(null);
+    const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
+
+    const inputClass = `px-2 py-1 rounded-lg text-sm focus:outline-none ${theme === "light"
+        ? "bg-white border border-gray-300 text-gray-900"
+        : "bg-white/5 border border-white/10 text-white"
+        }`;
+    const buttonClass = `px-3 py-1 rounded-lg text-sm transition-all ${theme === "light"
+        ? "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        : "bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 hover:text-white"
+        }`;
+
+    return (
+        <div className="max-w-2xl mx-auto mb-6">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <span className={`text-sm ${theme === "light" ? "text-gray-500" : "text-white/40"}`}>Minimums:</span>
+                <select
+                    value={activeProfileId ?? ""}
+                    onChange={(e) => setActiveProfile(e.target.value || null)}
+                    className={inputClass}
+                >
+                    <option value="" className="text-black">None</option>
+                    {profiles.map((p) => (
+                        <option key={p.id} value={p.id} className="text-black">
+                            {p.name}
+                        </option>
+                    ))}
+                </select>
+                {activeProfile && (
+                    <button onClick={() => setDraft({ ...activeProfile })} className={buttonClass}>
+                        Edit
+                    </button>
+                )}
+                <button
+                    onClick={() =>
+                        setDraft({
+                            id: `profile-${Date.now()}`,
+                            name: "New Profile",
+                            ceiling_ft: 1000,
+                            visibility_sm: 3,
+                            max_wind_kt: 25,
+                            max_gust_kt: 30,
+                            max_crosswind_kt: 15,
+                        })
+                    }
+                    className={buttonClass}
+                >
+                    New
+                </button>
+            </div>
+
+            {draft && (
+                <div className="glass rounded-xl p-4 mt-3 space-y-3">
+                    <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className={`${inputClass} w-full`}
+                        placeholder="Profile name"
+                    />
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {limitFields.map(({ key, label, unit, step }) => (
+                            <label key={key} className={`text-xs ${theme === "light" ? "text-gray-600" : "text-white/50"}`}>
+                                {label} ({unit})
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={step}
+                                    value={draft[key]}
+                                    onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+                                    className={`${inputClass} w-full mt-1`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex gap-2 justify-end">
+                        {profiles.some((p) => p.id === draft.id) && (
+                            <button
+                                onClick={() => {
+                                    deleteProfile(draft.id);
+                                    setDraft(null);
+                                }}
+                                className="px-3 py-1 rounded-lg text-sm bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400"
+                            >
+                                Delete
+                            </button>
+                        )}
+                        <button onClick={() => setDraft(null)} className={buttonClass}>
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => {
+                                saveProfile(draft);
+                                setActiveProfile(draft.id);
+                                setDraft(null);
+                            }}
+                            className="px-3 py-1 rounded-lg text-sm bg-gradient-to-r from-purple-500 to-cyan-500 text-white font-medium"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
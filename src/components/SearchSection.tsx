@@ -1,6 +1,10 @@
 "use client";
 
+import { useDeferredValue, useMemo, useState } from "react";
 import { motion } from "framer-motion";
+import { MetarData, SavedQuery } from "@/types";
+import { StationSuggestion, suggestStations } from "@/lib/stationCatalog";
+import { parseStationQuery, removeQueryTerm } from "@/lib/stationQuery";
 
 export function SearchSection({
     searchQuery,
@@ -9,6 +13,10 @@ export function SearchSection({
     recentSearches,
     favorites,
     setSelectedStation,
+    stations,
+    savedQueries,
+    saveQuery,
+    deleteQuery,
     theme,
 }: {
     searchQuery: string;
@@ -17,8 +25,45 @@ export function SearchSection({
     recentSearches: string[];
     favorites: string[];
     setSelectedStation: (icao: string) => void;
+    stations: MetarData[]; // loaded observations, for suggestions outside the catalog and their badges
+    savedQueries: SavedQuery[];
+    saveQuery: (name: string, query: string) => void;
+    deleteQuery: (id: string) => void;
     theme: "light" | "dark";
 }) {
+    const [showSuggestions, setShowSuggestions] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const [queryName, setQueryName] = useState<string | null>(null); // set while naming a query to save
+    // Filter terms such as cat:IFR make the box a filter rather than a station lookup
+    const parsedQuery = useMemo(() => parseStationQuery(searchQuery), [searchQuery]);
+    const isFilterQuery = parsedQuery.terms.length > 0;
+    // Ranking runs over every loaded station, so let typing stay ahead of it
+    const deferredQuery = useDeferredValue(searchQuery);
+    const suggestions = useMemo(
+        () => (isFilterQuery ? [] : suggestStations(deferredQuery, stations)),
+        [isFilterQuery, deferredQuery, stations]
+    );
+    const open = showSuggestions && suggestions.length > 0;
+
+    const chipClass = `px-3 py-1 ${theme === "light"
+        ? "bg-gray-200 hover:bg-gray-300 text-gray-700"
+        : "bg-white/5 hover:bg-white/10 border border-white/10 text-white/70 hover:text-white"
+        } rounded-lg text-sm transition-all`;
+    const labelClass = `text-sm ${theme === "light" ? "text-gray-500" : "text-white/40"}`;
+
+    const submitQueryName = () => {
+        const name = queryName?.trim();
+        if (name) saveQuery(name, searchQuery.trim());
+        setQueryName(null);
+    };
+
+    const openSuggestion = (suggestion: StationSuggestion) => {
+        setSearchQuery(suggestion.icao);
+        handleSearch(suggestion.icao);
+        setShowSuggestions(false);
+        setActiveIndex(-1);
+    };
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -31,28 +76,190 @@ export function SearchSection({
                     id="search-input"
                     type="text"
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => {
+                        setSearchQuery(e.target.value);
+                        setShowSuggestions(true);
+                        setActiveIndex(-1);
+                    }}
+                    onFocus={() => setShowSuggestions(true)}
+                    onBlur={() => setShowSuggestions(false)}
                     onKeyDown={(e) => {
-                        if (e.key === "Enter") handleSearch(searchQuery);
+                        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+                            if (!open) {
+                                setShowSuggestions(true);
+                                return;
+                            }
+                            e.preventDefault();
+                            // Cycles through the suggestions and back to the typed text (-1)
+                            const step = e.key === "ArrowDown" ? 1 : -1;
+                            const slots = suggestions.length + 1;
+                            setActiveIndex((i) => ((i + 1 + step + slots) % slots) - 1);
+                        }
+                        if (e.key === "Escape" && open) {
+                            e.stopPropagation();
+                            setShowSuggestions(false);
+                        }
+                        if (e.key === "Enter") {
+                            // A highlighted suggestion wins; otherwise the text is resolved as typed
+                            if (open && suggestions[activeIndex]) openSuggestion(suggestions[activeIndex]);
+                            else if (!isFilterQuery) handleSearch(searchQuery);
+                            setShowSuggestions(false);
+                        }
                     }}
-                    placeholder="Search by ICAO code or airport name..."
+                    role="combobox"
+                    aria-expanded={open}
+                    aria-controls="search-suggestions"
+                    aria-activedescendant={open && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+                    autoComplete="off"
+                    placeholder="Search by ICAO, IATA or FAA code, airport or city, or filter: cat:IFR gust>25"
                     className={`w-full px-6 py-4 ${theme === "light"
                             ? "bg-white border-gray-300 text-gray-900 placeholder-gray-400"
                             : "bg-white/5 border-white/10 text-white placeholder-white/30"
                         } border rounded-2xl text-lg focus:outline-none focus:border-purple-500/50 focus:ring-2 focus:ring-purple-500/20 transition-all`}
                 />
                 <button
-                    onClick={() => handleSearch(searchQuery)}
+                    onClick={() => {
+                        if (!isFilterQuery) handleSearch(searchQuery);
+                    }}
                     className="absolute right-2 top-1/2 -translate-y-1/2 px-6 py-2 bg-gradient-to-r from-purple-500 to-cyan-500 rounded-xl text-white font-medium hover:opacity-90 transition-opacity"
                 >
                     Search
                 </button>
+
+                {/* Suggestions */}
+                {open && (
+                    <ul
+                        id="search-suggestions"
+                        role="listbox"
+                        className={`absolute left-0 right-0 mt-2 rounded-2xl overflow-hidden shadow-xl z-[1000] ${theme === "light" ? "bg-white border border-gray-200" : "bg-gray-900 border border-white/10"}`}
+                    >
+                        {suggestions.map((suggestion, i) => (
+                            <li
+                                key={suggestion.icao}
+                                id={`search-suggestion-${i}`}
+                                role="option"
+                                aria-selected={i === activeIndex}
+                                // Keep focus in the input so blur does not close the list before the click
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => openSuggestion(suggestion)}
+                                onMouseEnter={() => setActiveIndex(i)}
+                                className={`px-4 py-2 flex items-center gap-3 cursor-pointer ${i === activeIndex
+                                    ? theme === "light" ? "bg-gray-100" : "bg-white/10"
+                                    : ""
+                                    }`}
+                            >
+                                <span className={`w-14 font-mono font-bold ${theme === "light" ? "text-gray-900" : "text-white"}`}>
+                                    {suggestion.icao}
+                                </span>
+                                <span className="flex-1 min-w-0 truncate text-sm">
+                                    <span className={theme === "light" ? "text-gray-700" : "text-white/80"}>{suggestion.name}</span>
+                                    {suggestion.place && (
+                                        <span className={theme === "light" ? "text-gray-400" : "text-white/40"}> · {suggestion.place}</span>
+                                    )}
+                                </span>
+                                {suggestion.metar?.has_maintenance_flag && (
+                                    <span
+                                        className="px-2 py-0.5 rounded text-xs font-bold bg-orange-500/20 text-orange-400 border border-orange-500/50"
+                                        title="ASOS maintenance flag ($)"
+                                    >
+                                        $
+                                    </span>
+                                )}
+                                {suggestion.metar && (
+                                    <span
+                                        className={`px-2 py-0.5 rounded text-xs font-bold bg-flight-${suggestion.metar.flight_category.toLowerCase()} flight-${suggestion.metar.flight_category.toLowerCase()}`}
+                                    >
+                                        {suggestion.metar.flight_category}
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
 
+            {/* Parsed filter terms */}
+            {isFilterQuery && (
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <span className={labelClass}>Filter:</span>
+                    {parsedQuery.terms.map((term, i) => (
+                        <span
+                            key={`${term.raw}-${i}`}
+                            title={term.raw}
+                            className={`pl-3 pr-1 py-1 rounded-lg text-sm flex items-center gap-1 border ${term.valid
+                                ? "bg-purple-500/20 border-purple-500/50 text-purple-300"
+                                : "bg-red-500/20 border-red-500/50 text-red-400"
+                                }`}
+                        >
+                            {term.valid ? term.label : `${term.raw}: ${term.label}`}
+                            <button
+                                onClick={() => setSearchQuery(removeQueryTerm(searchQuery, term))}
+                                className="px-1 opacity-60 hover:opacity-100"
+                                aria-label={`Remove ${term.raw}`}
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                    {parsedQuery.text && <span className={chipClass}>&ldquo;{parsedQuery.text}&rdquo;</span>}
+                    {queryName === null ? (
+                        <button onClick={() => setQueryName("")} className={chipClass}>
+                            Save query
+                        </button>
+                    ) : (
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                submitQueryName();
+                            }}
+                            className="flex items-center gap-1"
+                        >
+                            <input
+                                autoFocus
+                                value={queryName}
+                                onChange={(e) => setQueryName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Escape") setQueryName(null);
+                                }}
+                                placeholder="Query name"
+                                className={`px-2 py-1 rounded-lg text-sm focus:outline-none ${theme === "light"
+                                    ? "bg-white border border-gray-300 text-gray-900"
+                                    : "bg-white/5 border border-white/10 text-white"
+                                    }`}
+                            />
+                            <button type="submit" disabled={!queryName.trim()} className={`${chipClass} disabled:opacity-40`}>
+                                Save
+                            </button>
+                        </form>
+                    )}
+                </div>
+            )}
+
+            {/* Saved queries */}
+            {savedQueries.length > 0 && (
+                <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <span className={labelClass}>Saved:</span>
+                    {savedQueries.map((saved) => (
+                        <span key={saved.id} className={`${chipClass} pr-1 flex items-center gap-1`}>
+                            <button onClick={() => setSearchQuery(saved.query)} title={saved.query}>
+                                {saved.name}
+                            </button>
+                            <button
+                                onClick={() => deleteQuery(saved.id)}
+                                className="px-1 opacity-60 hover:opacity-100"
+                                aria-label={`Delete saved query ${saved.name}`}
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {/* Recent Searches */}
             {recentSearches.length > 0 && (
                 <div className="mt-4 flex flex-wrap gap-2">
-                    <span className={`text-sm ${theme === "light" ? "text-gray-500" : "text-white/40"}`}>Recent:</span>
+                    <span className={labelClass}>Recent:</span>
                     {recentSearches.map((icao) => (
                         <button
                             key={icao}
@@ -0,0 +1,66 @@
+"use client";
+
+import { formatDistanceToNowStrict } from "date-fns";
+import { SnapshotMeta, SnapshotRegionStatus } from "@/types";
+
+const MAX_LISTED_REGIONS = 8;
+
+function listRegions(regions: SnapshotRegionStatus[]): string {
+    const labels = regions.map((r) => r.label);
+    const extra = labels.length - MAX_LISTED_REGIONS;
+    return labels.slice(0, MAX_LISTED_REGIONS).join(", ") + (extra > 0 ? ` +${extra} more` : "");
+}
+
+function ago(timestamp: number): string {
+    return formatDistanceToNowStrict(new Date(timestamp), { addSuffix: true });
+}
+
+// Warns when the station snapshot is stale or missing regions, so a gap isn't read as "no stations"
+export function SnapshotStatusBanner({
+    meta,
+    refreshFailed,
+    theme,
+}: {
+    meta: SnapshotMeta | undefined;
+    refreshFailed: boolean; // the last request to /api/metar/all failed; meta is from an earlier one
+    theme: "light" | "dark";
+}) {
+    if (!meta || (!meta.stale && !meta.incomplete && !refreshFailed)) return null;
+
+    const failed = meta.regions.filter((r) => r.status === "failed");
+    const stale = meta.regions.filter((r) => r.status === "stale");
+    const oldest = stale.reduce<number | null>(
+        (min, r) => (r.fetchedAt !== null && (min === null || r.fetchedAt < min) ? r.fetchedAt : min),
+        null
+    );
+
+    return (
+        <div
+            role="status"
+            className={`mb-4 rounded-xl px-4 py-3 text-sm border ${failed.length > 0 || refreshFailed
+                ? "bg-red-500/10 border-red-500/40"
+                : "bg-yellow-500/10 border-yellow-500/40"
+                } ${theme === "light" ? "text-gray-800" : "text-white/80"}`}
+        >
+            {refreshFailed && (
+                <p>
+                    <span className="font-bold text-red-400">Refresh failed.</span> Showing the snapshot generated{" "}
+                    {ago(meta.generatedAt)}.
+                </p>
+            )}
+            {failed.length > 0 && (
+                <p title={failed.map((r) => `${r.label}: ${r.error ?? "failed"}`).join("\n")}>
+                    <span className="font-bold text-red-400">Incomplete data.</span> No stations could be loaded for{" "}
+                    {listRegions(failed)}; stations there are missing, not clear.
+                </p>
+            )}
+            {stale.length > 0 && (
+                <p title={stale.map((r) => `${r.label}: ${r.error ?? "stale"}`).join("\n")}>
+                    <span className="font-bold text-yellow-400">Stale data.</span> {listRegions(stale)}{" "}
+                    {stale.length === 1 ? "is" : "are"} shown from the last good update
+                    {oldest !== null && ` (${ago(oldest)})`}.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { MetarData } from "@/types";
+import { MetarData, MinimumsProfile, UnitPreferences } from "@/types";
+import { evaluateMinimums, goNoGoStyles } from "@/lib/minimums";
+import { formatTemp, formatVisibility, formatWind, unitLabels } from "@/lib/units";
 
 // Flight category styling (duplicated here or should be shared? Shared is better but keeping local for now if not used elsewhere)
 const flightCategoryStyles = {
@@ -42,22 +44,18 @@ const flightCategoryStyles = {
 export function StationCard({
     metar,
     onClick,
-    tempUnit,
+    units,
     isFavorite,
+    minimumsProfile = null,
 }: {
     metar: MetarData;
     onClick: () => void;
-    tempUnit: "C" | "F";
+    units: UnitPreferences;
     isFavorite: boolean;
+    minimumsProfile?: MinimumsProfile | null;
 }) {
     const styles = flightCategoryStyles[metar.flight_category];
-
-    const displayTemp =
-        metar.temperature_c !== null
-            ? tempUnit === "F"
-                ? Math.round(metar.temperature_c * 9 / 5 + 32)
-                : metar.temperature_c
-            : null;
+    const minimums = minimumsProfile ? evaluateMinimums(metar, minimumsProfile) : null;
 
     return (
         <motion.button
@@ -85,7 +83,17 @@ export function StationCard({
             )}
             <div className="flex items-center justify-between mb-1">
                 <span className="text-xl font-bold text-white">{metar.icao}</span>
-                <span className={`w-3 h-3 rounded-full ${styles.bg} ${styles.border} border-2`} />
+                <div className="flex items-center gap-2">
+                    {minimums && (
+                        <span
+                            className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${goNoGoStyles[minimums.status].badge}`}
+                            title={minimums.reasons.join("\n") || `Within ${minimumsProfile?.name} minimums`}
+                        >
+                            {minimums.status}
+                        </span>
+                    )}
+                    <span className={`w-3 h-3 rounded-full ${styles.bg} ${styles.border} border-2`} />
+                </div>
             </div>
             {/* Station name */}
             <div className="text-xs text-white/40 mb-1 truncate" title={metar.station_name}>
@@ -98,17 +106,22 @@ export function StationCard({
                     <span>Wind</span>
                     <span className="text-white/80">
                         {metar.wind_direction === null ? "VRB" : `${metar.wind_direction}°`}{" "}
-                        {metar.wind_speed_kt ?? "--"}kt
+                        {formatWind(metar.wind_speed_kt, units.wind)}
+                        {unitLabels.wind[units.wind]}
                     </span>
                 </div>
                 <div className="flex justify-between">
                     <span>Vis</span>
-                    <span className="text-white/80">{metar.visibility_sm}SM</span>
+                    <span className="text-white/80">
+                        {formatVisibility(metar.visibility_sm, units.visibility)}
+                        {unitLabels.visibility[units.visibility]}
+                    </span>
                 </div>
                 <div className="flex justify-between">
                     <span>Temp</span>
                     <span className="text-white/80">
-                        {displayTemp ?? "--"}°{tempUnit}
+                        {formatTemp(metar.temperature_c, units.temp)}
+                        {unitLabels.temp[units.temp]}
                     </span>
                 </div>
             </div>
@@ -1,19 +1,21 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { MetarData } from "@/types";
+import { MetarData, MinimumsProfile, UnitPreferences } from "@/types";
 import { StationCard } from "@/components/StationCard";
 
 export default function StationGrid({
     metars,
     onStationClick,
-    tempUnit,
+    units,
     favorites,
+    minimumsProfile = null,
 }: {
     metars: MetarData[];
     onStationClick: (icao: string) => void;
-    tempUnit: "C" | "F";
+    units: UnitPreferences;
     favorites: string[];
+    minimumsProfile?: MinimumsProfile | null;
 }) {
     return (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 pb-20">
@@ -22,8 +24,9 @@ export default function StationGrid({
                     key={metar.icao}
                     metar={metar}
                     onClick={() => onStationClick(metar.icao)}
-                    tempUnit={tempUnit}
+                    units={units}
                     isFavorite={favorites.includes(metar.icao)}
+                    minimumsProfile={minimumsProfile}
                 />
             ))}
         </div>
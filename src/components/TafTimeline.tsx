@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MetarData, TafData, UnitPreferences } from "@/types";
+import { getCeilingFt } from "@/lib/metarUtils";
+import { isOverlayChange } from "@/lib/tafParser";
+import { formatHeight, formatVisibility, formatWind, unitLabels } from "@/lib/units";
+
+type FlightCategory = MetarData["flight_category"];
+type TafForecast = TafData["forecasts"][number];
+
+const categoryColors: Record<FlightCategory, string> = {
+    VFR: "#22c55e",
+    MVFR: "#3b82f6",
+    IFR: "#ef4444",
+    LIFR: "#a855f7",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function pad(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+// Day/hour in UTC, e.g. "17/1800Z"
+function formatZulu(date: Date): string {
+    return `${pad(date.getUTCDate())}/${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}Z`;
+}
+
+function describeWind(f: TafForecast, unit: UnitPreferences["wind"]): string {
+    if (f.wind_speed_kt === null) return "--";
+    if (f.wind_speed_kt === 0) return "Calm";
+    const dir = f.wind_direction === null ? "VRB" : `${String(f.wind_direction).padStart(3, "0")}°`;
+    const gust = f.wind_gust_kt ? `G${formatWind(f.wind_gust_kt, unit)}` : "";
+    return `${dir} ${formatWind(f.wind_speed_kt, unit)}${gust}${unitLabels.wind[unit]}`;
+}
+
+function describeCeiling(f: TafForecast, unit: UnitPreferences["height"]): string {
+    const ceiling = getCeilingFt(f.clouds);
+    return ceiling === null ? "None" : `${formatHeight(ceiling, unit)} ${unitLabels.height[unit]}`;
+}
+
+function changeLabel(f: TafForecast): string {
+    if (!f.change_type) return "Initial";
+    if (f.probability) return f.change_type === "TEMPO" ? `PROB${f.probability} TEMPO` : `PROB${f.probability}`;
+    return f.change_type;
+}
+
+export function TafTimeline({
+    taf,
+    metar,
+    units,
+}: {
+    taf: TafData;
+    metar: MetarData | null;
+    units: UnitPreferences;
+}) {
+    // Only read the clock on the client to avoid hydration mismatches
+    const [now, setNow] = useState<number | null>(null);
+    useEffect(() => {
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const start = new Date(taf.valid_from).getTime();
+    const end = new Date(taf.valid_to).getTime();
+    const span = end - start;
+    if (!(span > 0)) return null;
+
+    const position = (t: number) => `${(Math.min(Math.max(t - start, 0), span) / span) * 100}%`;
+
+    // Prevailing periods run until the next FM/BECMG change; overlays keep their own window
+    const prevailing = taf.forecasts.filter((f) => !isOverlayChange(f.change_type));
+    const overlays = taf.forecasts.filter((f) => isOverlayChange(f.change_type));
+    const bands = prevailing.map((f, i) => ({
+        forecast: f,
+        from: new Date(f.from).getTime(),
+        to: i < prevailing.length - 1 ? new Date(prevailing[i + 1].from).getTime() : end,
+    }));
+
+    const ticks: number[] = [];
+    const firstTick = Math.ceil(start / (6 * HOUR_MS)) * 6 * HOUR_MS;
+    for (let t = firstTick; t <= end; t += 6 * HOUR_MS) ticks.push(t);
+
+    const showNow = now !== null && now >= start && now <= end;
+
+    return (
+        <div className="space-y-3">
+            <div className="relative pt-6">
+                {showNow && (
+                    <div
+                        className="absolute top-0 -translate-x-1/2 flex items-center gap-1 text-[10px] whitespace-nowrap z-10"
+                        style={{ left: position(now) }}
+                    >
+                        <span className="text-white font-bold">NOW</span>
+                        {metar && (
+                            <span
+                                className="px-1.5 rounded text-white font-bold"
+                                style={{ backgroundColor: categoryColors[metar.flight_category] }}
+                                title="Current METAR flight category"
+                            >
+                                {metar.flight_category}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {/* Prevailing conditions */}
+                <div className="relative h-8 rounded-lg overflow-hidden bg-white/5">
+                    {bands.map(({ forecast, from, to }, i) => (
+                        <div
+                            key={i}
+                            className="absolute inset-y-0 flex items-center justify-center text-[10px] font-bold text-white/90 border-r border-black/30 overflow-hidden"
+                            style={{
+                                left: position(from),
+                                width: `calc(${position(to)} - ${position(from)})`,
+                                backgroundColor: categoryColors[forecast.flight_category],
+                            }}
+                            title={`${changeLabel(forecast)} ${formatZulu(new Date(from))} - ${formatZulu(new Date(to))}: ${forecast.flight_category}`}
+                        >
+                            {forecast.flight_category}
+                        </div>
+                    ))}
+                </div>
+
+                {/* TEMPO / PROB overlays */}
+                {overlays.length > 0 && (
+                    <div className="relative h-4 mt-1">
+                        {overlays.map((f, i) => (
+                            <div
+                                key={i}
+                                className="absolute inset-y-0 rounded text-[9px] font-bold text-white/90 flex items-center justify-center overflow-hidden border border-white/30"
+                                style={{
+                                    left: position(new Date(f.from).getTime()),
+                                    width: `calc(${position(new Date(f.to).getTime())} - ${position(new Date(f.from).getTime())})`,
+                                    backgroundColor: categoryColors[f.flight_category],
+                                    opacity: f.probability ? 0.4 + f.probability / 100 : 0.8,
+                                    backgroundImage:
+                                        "repeating-linear-gradient(45deg, rgba(0,0,0,0.25) 0 4px, transparent 4px 8px)",
+                                }}
+                                title={`${changeLabel(f)} ${formatZulu(new Date(f.from))} - ${formatZulu(new Date(f.to))}: ${f.flight_category}`}
+                            >
+                                {changeLabel(f)}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {showNow && (
+                    <div
+                        className="absolute top-5 bottom-0 w-0.5 bg-white shadow-[0_0_6px_rgba(255,255,255,0.8)]"
+                        style={{ left: position(now) }}
+                    />
+                )}
+
+                {/* Hour ticks */}
+                <div className="relative h-4 mt-1 text-[10px] text-white/40 font-mono">
+                    {ticks.map((t) => (
+                        <span key={t} className="absolute -translate-x-1/2" style={{ left: position(t) }}>
+                            {pad(new Date(t).getUTCHours())}Z
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {/* Per-period details */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+                {taf.forecasts.map((f, i) => (
+                    <div
+                        key={i}
+                        className={`rounded-lg p-2 bg-white/5 border-l-4 ${isOverlayChange(f.change_type) ? "border-dashed" : ""}`}
+                        style={{ borderLeftColor: categoryColors[f.flight_category] }}
+                    >
+                        <div className="flex justify-between mb-1">
+                            <span className="font-bold text-white/80">{changeLabel(f)}</span>
+                            <span className="font-mono text-white/50">
+                                {formatZulu(new Date(f.from))} - {formatZulu(new Date(f.to))}
+                            </span>
+                        </div>
+                        <div className="flex flex-wrap gap-x-3 text-white/60">
+                            <span>Wind: <span className="text-white">{describeWind(f, units.wind)}</span></span>
+                            <span>
+                                Vis:{" "}
+                                <span className="text-white">
+                                    {formatVisibility(f.visibility_sm, units.visibility)} {unitLabels.visibility[units.visibility]}
+                                </span>
+                            </span>
+                            <span>Ceiling: <span className="text-white">{describeCeiling(f, units.height)}</span></span>
+                            {f.weather.length > 0 && <span className="text-yellow-400">{f.weather.join(" ")}</span>}
+                            {f.wind_shear && (
+                                <span className="text-orange-400">
+                                    WS {formatHeight(f.wind_shear.height_ft, units.height)} {unitLabels.height[units.height]}{" "}
+                                    {f.wind_shear.direction}°/{formatWind(f.wind_shear.speed_kt, units.wind)}
+                                    {unitLabels.wind[units.wind]}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,468 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { MetarData, ObservationRecord, OutageEvent, UnitPreferences } from "@/types";
+import { convertAltimeter, convertHeight, convertTemp, convertVisibility, convertWind, unitLabels } from "@/lib/units";
+
+type FlightCategory = MetarData["flight_category"];
+type MetricId = "temp" | "wind" | "altimeter" | "visibility" | "ceiling";
+
+const categoryColors: Record<FlightCategory, string> = {
+    VFR: "#22c55e",
+    MVFR: "#3b82f6",
+    IFR: "#ef4444",
+    LIFR: "#a855f7",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_HOURS = [24, 48, 72] as const;
+
+interface Series {
+    label: string;
+    color: string;
+    values: Array<number | null>;
+    dashed?: boolean;
+}
+
+interface Metric {
+    id: MetricId;
+    label: string;
+    unit: string;
+    decimals: number;
+    series: Series[];
+    directions?: Array<number | null>;
+}
+
+interface Period {
+    from: number;
+    to: number;
+}
+
+function pad(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+// Day/hour in UTC, e.g. "17/1853Z"
+function formatZulu(t: number): string {
+    const date = new Date(t);
+    return `${pad(date.getUTCDate())}/${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}Z`;
+}
+
+function formatValue(value: number | null, decimals: number): string {
+    return value === null ? "--" : value.toFixed(decimals);
+}
+
+function buildMetrics(observations: ObservationRecord[], units: UnitPreferences): Metric[] {
+    const pick = (fn: (o: ObservationRecord) => number | null) =>
+        observations.map((o) => {
+            const value = fn(o);
+            return value === null || isNaN(value) ? null : value;
+        });
+
+    return [
+        {
+            id: "temp",
+            label: "Temp / Dew",
+            unit: unitLabels.temp[units.temp],
+            decimals: 0,
+            series: [
+                {
+                    label: "Temp",
+                    color: "#f87171",
+                    values: pick((o) => (o.temperature_c === null ? null : convertTemp(o.temperature_c, units.temp))),
+                },
+                {
+                    label: "Dew",
+                    color: "#38bdf8",
+                    values: pick((o) => (o.dewpoint_c === null ? null : convertTemp(o.dewpoint_c, units.temp))),
+                },
+            ],
+        },
+        {
+            id: "wind",
+            label: "Wind",
+            unit: unitLabels.wind[units.wind],
+            decimals: 0,
+            series: [
+                {
+                    label: "Speed",
+                    color: "#a78bfa",
+                    values: pick((o) => (o.wind_speed_kt === null ? null : convertWind(o.wind_speed_kt, units.wind))),
+                },
+                {
+                    label: "Gust",
+                    color: "#fb923c",
+                    dashed: true,
+                    values: pick((o) => (o.wind_gust_kt ? convertWind(o.wind_gust_kt, units.wind) : null)),
+                },
+            ],
+            directions: observations.map((o) => o.wind_direction),
+        },
+        {
+            id: "altimeter",
+            label: "Altimeter",
+            unit: unitLabels.pressure[units.pressure],
+            decimals: units.pressure === "hPa" ? 0 : 2,
+            series: [
+                {
+                    label: "Altimeter",
+                    color: "#2dd4bf",
+                    values: pick((o) => (o.altimeter_hg === null ? null : convertAltimeter(o.altimeter_hg, units.pressure))),
+                },
+            ],
+        },
+        {
+            id: "visibility",
+            label: "Visibility",
+            unit: unitLabels.visibility[units.visibility],
+            decimals: units.visibility === "m" ? 0 : 1,
+            series: [
+                {
+                    label: "Visibility",
+                    color: "#facc15",
+                    values: pick((o) => convertVisibility(o.visibility_sm, units.visibility)),
+                },
+            ],
+        },
+        {
+            id: "ceiling",
+            label: "Ceiling",
+            unit: unitLabels.height[units.height],
+            decimals: 0,
+            series: [
+                {
+                    label: "Ceiling",
+                    color: "#e5e7eb",
+                    values: pick((o) => (o.ceiling_ft === null ? null : convertHeight(o.ceiling_ft, units.height))),
+                },
+            ],
+        },
+    ];
+}
+
+// Value range across all series with a little headroom, never zero-height
+function valueRange(series: Series[]): [number, number] {
+    const values = series.flatMap((s) => s.values).filter((v): v is number => v !== null);
+    if (values.length === 0) return [0, 1];
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (max - min < 1e-6) {
+        min -= 1;
+        max += 1;
+    }
+    const padding = (max - min) * 0.1;
+    return [min - padding, max + padding];
+}
+
+// SVG path in a 0-100 box, broken wherever a value is missing
+function linePath(times: number[], values: Array<number | null>, x: (t: number) => number, y: (v: number) => number): string {
+    let path = "";
+    let drawing = false;
+    values.forEach((v, i) => {
+        if (v === null) {
+            drawing = false;
+            return;
+        }
+        path += `${drawing ? "L" : "M"}${x(times[i]).toFixed(2)} ${y(v).toFixed(2)} `;
+        drawing = true;
+    });
+    return path;
+}
+
+function TrendChart({
+    metric,
+    times,
+    categories,
+    outages,
+    start,
+    end,
+    compact = false,
+}: {
+    metric: Metric;
+    times: number[];
+    categories: FlightCategory[];
+    outages: Period[];
+    start: number;
+    end: number;
+    compact?: boolean;
+}) {
+    // useId returns colons, which aren't safe inside url(#...)
+    const patternId = `outage-${useId().replace(/:/g, "")}`;
+    const [hoverIndex, setHover] = useState<number | null>(null);
+    const hover = hoverIndex !== null && hoverIndex < times.length ? hoverIndex : null;
+    const span = end - start;
+    const [min, max] = valueRange(metric.series);
+    const x = (t: number) => (Math.min(Math.max(t - start, 0), span) / span) * 100;
+    const y = (v: number) => 100 - ((v - min) / (max - min)) * 100;
+
+    // Each observation's category holds until the next report
+    const bands = times.map((t, i) => ({
+        category: categories[i],
+        from: t,
+        to: i < times.length - 1 ? times[i + 1] : end,
+    }));
+
+    const ticks: number[] = [];
+    const tickStep = (span > 24 * HOUR_MS ? 12 : 6) * HOUR_MS;
+    for (let t = Math.ceil(start / tickStep) * tickStep; t <= end; t += tickStep) ticks.push(t);
+
+    const handleMove = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const t = start + ((e.clientX - rect.left) / rect.width) * span;
+        let nearest = 0;
+        times.forEach((time, i) => {
+            if (Math.abs(time - t) < Math.abs(times[nearest] - t)) nearest = i;
+        });
+        setHover(nearest);
+    };
+
+    const svg = (
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible">
+            <defs>
+                <pattern id={patternId} width="4" height="4" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                    <rect width="2" height="4" fill="rgba(249,115,22,0.35)" />
+                </pattern>
+            </defs>
+            {!compact &&
+                bands.map((band, i) => (
+                    <rect
+                        key={i}
+                        x={x(band.from)}
+                        width={Math.max(x(band.to) - x(band.from), 0)}
+                        y={0}
+                        height={100}
+                        fill={categoryColors[band.category]}
+                        opacity={0.12}
+                    />
+                ))}
+            {outages.map((outage, i) => (
+                <rect
+                    key={i}
+                    x={x(outage.from)}
+                    width={Math.max(x(outage.to) - x(outage.from), 0.5)}
+                    y={0}
+                    height={100}
+                    fill={`url(#${patternId})`}
+                />
+            ))}
+            {metric.series.slice(0, compact ? 1 : undefined).map((series) => (
+                <path
+                    key={series.label}
+                    d={linePath(times, series.values, x, y)}
+                    fill="none"
+                    stroke={series.color}
+                    strokeWidth={compact ? 1.5 : 2}
+                    strokeDasharray={series.dashed ? "4 3" : undefined}
+                    vectorEffect="non-scaling-stroke"
+                />
+            ))}
+            {hover !== null && (
+                <line
+                    x1={x(times[hover])}
+                    x2={x(times[hover])}
+                    y1={0}
+                    y2={100}
+                    stroke="white"
+                    strokeOpacity={0.6}
+                    vectorEffect="non-scaling-stroke"
+                />
+            )}
+        </svg>
+    );
+
+    if (compact) {
+        return <div className="relative h-10">{svg}</div>;
+    }
+
+    return (
+        <div className="space-y-1">
+            {/* Hover readout */}
+            <div className="h-5 flex flex-wrap items-center gap-x-3 text-xs font-mono text-white/60">
+                {hover !== null ? (
+                    <>
+                        <span className="text-white">{formatZulu(times[hover])}</span>
+                        <span style={{ color: categoryColors[categories[hover]] }}>{categories[hover]}</span>
+                        {metric.series.map((series) => (
+                            <span key={series.label}>
+                                {series.label}:{" "}
+                                <span style={{ color: series.color }}>
+                                    {formatValue(series.values[hover], metric.decimals)}
+                                </span>
+                            </span>
+                        ))}
+                        {metric.directions && metric.directions[hover] !== null && (
+                            <span>Dir: {String(metric.directions[hover]).padStart(3, "0")}°</span>
+                        )}
+                    </>
+                ) : (
+                    metric.series.map((series) => (
+                        <span key={series.label} className="flex items-center gap-1">
+                            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: series.color }} />
+                            {series.label}
+                        </span>
+                    ))
+                )}
+            </div>
+
+            <div className="flex gap-2">
+                {/* Value axis */}
+                <div className="flex flex-col justify-between text-[10px] font-mono text-white/40 text-right w-12 py-0.5">
+                    <span>{max.toFixed(metric.decimals)}</span>
+                    <span>{metric.unit}</span>
+                    <span>{min.toFixed(metric.decimals)}</span>
+                </div>
+                <div className="flex-1">
+                    {/* Wind direction arrows point downwind, like a wind barb shaft */}
+                    {metric.directions && (
+                        <div className="relative h-4">
+                            {metric.directions.map((dir, i) =>
+                                dir === null || (times.length > 36 && i % 3 !== 0) ? null : (
+                                    <span
+                                        key={i}
+                                        className="absolute text-[10px] leading-none text-white/50"
+                                        style={{ left: `${x(times[i])}%`, transform: `translateX(-50%) rotate(${dir + 180}deg)` }}
+                                        title={`${String(dir).padStart(3, "0")}°`}
+                                    >
+                                        ↑
+                                    </span>
+                                )
+                            )}
+                        </div>
+                    )}
+                    <div
+                        className="relative h-40 rounded-lg bg-white/5"
+                        onMouseMove={handleMove}
+                        onMouseLeave={() => setHover(null)}
+                    >
+                        {svg}
+                    </div>
+                    {/* Flight category strip */}
+                    <div className="relative h-2 mt-1 rounded overflow-hidden bg-white/5">
+                        {bands.map((band, i) => (
+                            <div
+                                key={i}
+                                className="absolute inset-y-0"
+                                style={{
+                                    left: `${x(band.from)}%`,
+                                    width: `${Math.max(x(band.to) - x(band.from), 0)}%`,
+                                    backgroundColor: categoryColors[band.category],
+                                }}
+                                title={`${formatZulu(band.from)}: ${band.category}`}
+                            />
+                        ))}
+                    </div>
+                    {/* Hour ticks */}
+                    <div className="relative h-4 mt-1 text-[10px] text-white/40 font-mono">
+                        {ticks.map((t) => (
+                            <span key={t} className="absolute -translate-x-1/2" style={{ left: `${x(t)}%` }}>
+                                {pad(new Date(t).getUTCHours())}Z
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function TrendCharts({
+    observations,
+    outages,
+    units,
+}: {
+    observations: ObservationRecord[];
+    outages: OutageEvent[];
+    units: UnitPreferences;
+}) {
+    const [windowHours, setWindowHours] = useState<(typeof WINDOW_HOURS)[number]>(24);
+    const [selected, setSelected] = useState<MetricId>("temp");
+
+    const end = observations.length > 0 ? observations[observations.length - 1].obs_time_unix : 0;
+    const start = end - windowHours * HOUR_MS;
+    const visible = useMemo(
+        () => observations.filter((o) => o.obs_time_unix >= start),
+        [observations, start]
+    );
+    const metrics = useMemo(() => buildMetrics(visible, units), [visible, units]);
+
+    // Maintenance periods clipped to the window; an open outage runs to the latest report
+    const periods = outages
+        .map((o) => ({ from: Math.max(o.startTime, start), to: Math.min(o.endTime ?? end, end) }))
+        .filter((p) => p.to >= p.from);
+
+    if (visible.length < 2) return null;
+
+    const times = visible.map((o) => o.obs_time_unix);
+    const categories = visible.map((o) => o.flight_category);
+    const active = metrics.find((m) => m.id === selected) ?? metrics[0];
+
+    return (
+        <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-bold text-white/70">TRENDS</h3>
+                <div className="flex gap-1">
+                    {WINDOW_HOURS.map((hours) => (
+                        <button
+                            key={hours}
+                            onClick={() => setWindowHours(hours)}
+                            className={`px-2 py-0.5 rounded text-xs transition-colors ${windowHours === hours
+                                ? "bg-purple-500/30 text-white border border-purple-500/50"
+                                : "bg-white/5 text-white/50 hover:text-white"
+                                }`}
+                        >
+                            {hours}h
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Sparklines */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+                {metrics.map((metric) => {
+                    const latest = [...metric.series[0].values].reverse().find((v) => v !== null) ?? null;
+                    return (
+                        <button
+                            key={metric.id}
+                            onClick={() => setSelected(metric.id)}
+                            className={`text-left rounded-xl p-2 transition-colors ${metric.id === active.id
+                                ? "bg-white/10 border border-white/20"
+                                : "bg-white/5 border border-transparent hover:bg-white/10"
+                                }`}
+                        >
+                            <div className="flex justify-between text-[10px] text-white/50 mb-1">
+                                <span>{metric.label.toUpperCase()}</span>
+                                <span className="text-white/80 font-mono">
+                                    {formatValue(latest, metric.decimals)} {metric.unit}
+                                </span>
+                            </div>
+                            <TrendChart
+                                metric={metric}
+                                times={times}
+                                categories={categories}
+                                outages={periods}
+                                start={start}
+                                end={end}
+                                compact
+                            />
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Full chart for the selected metric */}
+            <div className="bg-white/5 rounded-xl p-4">
+                <TrendChart
+                    metric={active}
+                    times={times}
+                    categories={categories}
+                    outages={periods}
+                    start={start}
+                    end={end}
+                />
+                {periods.length > 0 && (
+                    <p className="text-[10px] text-orange-400/80 mt-1">Hatched: $ maintenance flag periods</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { UnitPreferences } from "@/types";
+import { unitLabels } from "@/lib/units";
+
+const unitKinds: Array<{ kind: keyof UnitPreferences; label: string }> = [
+    { kind: "temp", label: "Temperature" },
+    { kind: "wind", label: "Wind" },
+    { kind: "visibility", label: "Visibility" },
+    { kind: "pressure", label: "Altimeter" },
+    { kind: "height", label: "Heights" },
+];
+
+export function UnitSettings({
+    units,
+    onChange,
+    theme,
+}: {
+    units: UnitPreferences;
+    onChange: <K extends keyof UnitPreferences>(kind: K, unit: UnitPreferences[K]) => void;
+    theme: "light" | "dark";
+}) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(!open)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${theme === "light"
+                    ? "bg-gray-200 hover:bg-gray-300 text-gray-700"
+                    : "bg-white/10 hover:bg-white/20 text-white/70"
+                    }`}
+                title="Display units"
+            >
+                {unitLabels.temp[units.temp]} · {unitLabels.wind[units.wind]}
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-2 w-64 glass rounded-xl p-3 space-y-2 z-50">
+                    {unitKinds.map(({ kind, label }) => (
+                        <div key={kind} className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-white/50">{label}</span>
+                            <div className="flex gap-1">
+                                {Object.entries(unitLabels[kind]).map(([value, text]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => onChange(kind, value as UnitPreferences[typeof kind])}
+                                        className={`px-2 py-0.5 rounded text-xs transition-colors ${units[kind] === value
+                                            ? "bg-purple-500 text-white"
+                                            : "bg-white/5 text-white/60 hover:bg-white/10"
+                                            }`}
+                                    >
+                                        {text}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { LiveEvent, LiveStatus, MetarData, MetarSnapshot } from "@/types";
+import { useLiveStore } from "@/stores/liveStore";
+import { useMaintenanceStore } from "@/stores/maintenanceStore";
+
+const STREAM_URL = "/api/stream";
+// An ingest run posts a burst of events; apply them together instead of re-rendering per station
+const FLUSH_DELAY_MS = 1000;
+// With no ingest this recent the stream has nothing to deliver, so polling takes over
+const MAX_INGEST_AGE_MS = 15 * 60 * 1000;
+const LIVE_CHECK_INTERVAL_MS = 60 * 1000;
+
+function replaceNewer(metars: MetarData[], updates: Map<string, MetarData>): MetarData[] {
+  let changed = false;
+  const next = metars.map((metar) => {
+    const update = updates.get(metar.icao);
+    if (!update || update.obs_time_unix <= metar.obs_time_unix) return metar;
+    changed = true;
+    return update;
+  });
+  return changed ? next : metars;
+}
+
+// Patch every cached copy of the stations in place. Only stations already in a
+// cache are touched, since the client can't tell which coverage a new one belongs to.
+function applyObservations(queryClient: QueryClient, updates: Map<string, MetarData>) {
+  queryClient.setQueriesData<MetarSnapshot>({ queryKey: ["all-us-metars"] }, (snapshot) => {
+    if (!snapshot) return snapshot;
+    const metars = replaceNewer(snapshot.metars, updates);
+    return metars === snapshot.metars ? snapshot : { ...snapshot, metars };
+  });
+  queryClient.setQueriesData<MetarData[]>({ queryKey: ["metar-bbox"] }, (metars) =>
+    metars ? replaceNewer(metars, updates) : metars
+  );
+  updates.forEach((metar, icao) => {
+    queryClient.setQueryData<MetarData | null>(["metar", icao], (current) =>
+      current && metar.obs_time_unix > current.obs_time_unix ? metar : current
+    );
+    queryClient.invalidateQueries({ queryKey: ["metar-history", icao] });
+  });
+}
+
+/**
+ * Subscribe to /api/stream and fold pushed observations into the React Query
+ * caches, so the map, grid and detail card update without a refetch. While
+ * the stream is connected and the ingest job is running, `live` is set and
+ * the station queries poll every 15 minutes to pick up what the stream
+ * doesn't carry; otherwise they use their regular interval.
+ */
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    const { setLive, setIngestedAt, setLastCategoryChange } = useLiveStore.getState();
+    const source = new EventSource(STREAM_URL);
+    const pending = new Map<string, MetarData>();
+    let maintenanceChanged = false;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    let connected = false;
+    let ingestedAt: number | null = null;
+
+    const updateLive = () => {
+      setLive(connected && ingestedAt !== null && Date.now() - ingestedAt < MAX_INGEST_AGE_MS);
+    };
+
+    const flush = () => {
+      flushTimer = undefined;
+      if (pending.size > 0) {
+        applyObservations(queryClient, new Map(pending));
+        pending.clear();
+      }
+      if (maintenanceChanged) {
+        maintenanceChanged = false;
+        useMaintenanceStore.getState().fetchData();
+      }
+    };
+    const scheduleFlush = () => {
+      if (flushTimer === undefined) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    };
+
+    // Any received event means the connection is up
+    const handle = <T,>(listener: (data: T) => void) => (message: MessageEvent<string>) => {
+      connected = true;
+      try {
+        listener(JSON.parse(message.data) as T);
+      } catch (error) {
+        console.error("Failed to handle live event:", error);
+      }
+    };
+
+    const onStatus = handle<LiveStatus>((status) => {
+      ingestedAt = status.ingestedAt;
+      setIngestedAt(status.ingestedAt);
+      updateLive();
+    });
+    const onObservation = handle<Extract<LiveEvent, { type: "observation" }>>((event) => {
+      const queued = pending.get(event.icao);
+      if (!queued || event.metar.obs_time_unix > queued.obs_time_unix) pending.set(event.icao, event.metar);
+      // Events only come from an ingest run, so one just happened
+      ingestedAt = Date.now();
+      updateLive();
+      scheduleFlush();
+    });
+    const onCategory = handle<Extract<LiveEvent, { type: "category" }>>(setLastCategoryChange);
+    const onMaintenance = handle<Extract<LiveEvent, { type: "maintenance" }>>(() => {
+      maintenanceChanged = true;
+      scheduleFlush();
+    });
+    // Events were missed; refetch the snapshots rather than show a partial picture
+    const onResync = handle<unknown>(() => {
+      queryClient.invalidateQueries({ queryKey: ["all-us-metars"] });
+      queryClient.invalidateQueries({ queryKey: ["metar-bbox"] });
+      maintenanceChanged = true;
+      scheduleFlush();
+    });
+
+    source.addEventListener("status", onStatus);
+    source.addEventListener("observation", onObservation);
+    source.addEventListener("category", onCategory);
+    source.addEventListener("maintenance", onMaintenance);
+    source.addEventListener("resync", onResync);
+    // EventSource retries on its own; poll until it's back
+    source.onerror = () => {
+      connected = false;
+      updateLive();
+    };
+
+    const liveCheck = setInterval(updateLive, LIVE_CHECK_INTERVAL_MS);
+
+    return () => {
+      source.close();
+      clearInterval(liveCheck);
+      if (flushTimer !== undefined) {
+        clearTimeout(flushTimer);
+        flush();
+      }
+      setLive(false);
+    };
+  }, [queryClient]);
+}
@@ -1,24 +1,66 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { QueryClient, useQueries, useQuery, useQueryClient, UseQueryResult } from "@tanstack/react-query";
 import axios from "axios";
-import { MetarData, TafData, AwcMetarResponse, AwcTafResponse } from "@/types";
-import { transformMetar, transformTaf, weatherCodes, cloudCoverCodes, decodeWeather } from "@/lib/metarUtils";
+import {
+  Advisory,
+  MetarData,
+  MetarSnapshot,
+  TafData,
+  AwcMetarResponse,
+  AwcTafResponse,
+  BoundingBox,
+  HazardLayer,
+  ObservationRecord,
+  PilotReport,
+} from "@/types";
+import {
+  transformMetar,
+  transformTaf,
+  toObservationRecord,
+  weatherCodes,
+  cloudCoverCodes,
+  decodeWeather,
+} from "@/lib/metarUtils";
+import { boundingBoxTileCount, formatBoundingBox, MAX_VIEWPORT_TILES, viewportTiles } from "@/lib/coverage";
+import { mergeSnapshotDelta } from "@/lib/snapshotDelta";
+import {
+  advisoryListSchema,
+  awcMetarListSchema,
+  awcTafListSchema,
+  metarListSchema,
+  metarSnapshotDeltaSchema,
+  metarSnapshotSchema,
+  pilotReportListSchema,
+  stationHistorySchema,
+} from "@/lib/apiSchemas";
+import { Schema } from "@/lib/schema";
+import { currentGairmets } from "@/lib/advisories";
+import { usePollingInterval } from "@/stores/liveStore";
 
-const API_BASE = "/api/metar";
+const API_BASE = "/api/v1/metar";
 
 // Re-export specific utils that might be used by components
 export { weatherCodes, cloudCoverCodes, decodeWeather };
 export type { MetarData, TafData };
 
+// AWC records passed through /api/metar; upstream drift is logged rather than failing the fetch
+function parseUpstream<T>(schema: Schema<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  console.warn(`Upstream payload mismatch (${schema.name ?? "response"}):`, result.error.message);
+  return data as T;
+}
+
 // Fetch single METAR by ICAO code
 async function fetchMetar(icao: string): Promise<MetarData | null> {
   try {
     const cleanIcao = icao.toUpperCase().trim();
     const response = await axios.get(`${API_BASE}?ids=${cleanIcao}&format=json&hours=2`);
-    const data = response.data;
+    const data = parseUpstream(awcMetarListSchema, response.data);
 
-    if (!data || !Array.isArray(data) || data.length === 0) {
+    if (data.length === 0) {
       console.log(`No valid METAR for ${cleanIcao}`);
       return null;
     }
@@ -36,9 +78,9 @@ async function fetchTaf(icao: string): Promise<TafData | null> {
   try {
     const cleanIcao = icao.toUpperCase().trim();
     const response = await axios.get(`${API_BASE}?ids=${cleanIcao}&format=json&type=taf`);
-    const data = response.data;
+    const data = parseUpstream(awcTafListSchema, response.data);
 
-    if (!data || !Array.isArray(data) || data.length === 0) {
+    if (data.length === 0) {
       console.log(`No valid TAF for ${cleanIcao}`);
       return null;
     }
@@ -50,25 +92,84 @@ async function fetchTaf(icao: string): Promise<TafData | null> {
   }
 }
 
-// Fetch all US METARs via our new optimized API route
-async function fetchAllUSMetars(): Promise<MetarData[]> {
+// Fetch the station snapshot for a coverage region (default: the server's configured coverage).
+// With a previous snapshot only the changes are downloaded: a 304 when nothing changed,
+// otherwise a delta merged into it. Errors are rethrown so React Query keeps serving
+// the previous snapshot.
+async function fetchAllUSMetars(region?: string | null, previous?: MetarSnapshot): Promise<MetarSnapshot> {
+  const version = previous?.meta.version;
   try {
-    const response = await axios.get(`${API_BASE}/all`);
-    return response.data;
+    const response = await axios.get<unknown>(`${API_BASE}/all`, {
+      params: { ...(region ? { region } : {}), ...(version ? { since: version } : {}) },
+      headers: version ? { "If-None-Match": `"${version}"` } : undefined,
+      validateStatus: (status) => status === 200 || status === 304,
+    });
+    const isDelta = typeof response.data === "object" && response.data !== null && "changed" in response.data;
+
+    if (response.status === 304 || isDelta) {
+      if (!previous) throw new Error("Received an incremental update without a base snapshot");
+      return response.status === 304 ? previous : mergeSnapshotDelta(previous, metarSnapshotDeltaSchema.parse(response.data));
+    }
+    return metarSnapshotSchema.parse(response.data);
   } catch (error) {
     console.error("Failed to fetch all US METARs:", error);
-    return [];
+    throw error;
+  }
+}
+
+// Fetch a station's recent observations, oldest first. Combines the server's history
+// archive with the hours the provider still serves, so trends show up before the
+// archive has filled and the archive covers anything the provider has dropped.
+async function fetchMetarHistory(icao: string, hours: number): Promise<ObservationRecord[]> {
+  const cleanIcao = icao.toUpperCase().trim();
+  const from = Date.now() - hours * 60 * 60 * 1000;
+  const [archived, recent] = await Promise.all([
+    axios
+      .get(`/api/v1/history/${cleanIcao}`, { params: { from } })
+      .then((response) => stationHistorySchema.parse(response.data).observations)
+      .catch((error) => {
+        console.error(`Failed to fetch history for ${cleanIcao}:`, error);
+        return [];
+      }),
+    axios
+      .get(API_BASE, { params: { ids: cleanIcao, format: "json", hours } })
+      .then((response) =>
+        parseUpstream(awcMetarListSchema, response.data).map((item) => toObservationRecord(transformMetar(item as AwcMetarResponse)))
+      )
+      .catch((error) => {
+        console.error(`Failed to fetch recent METARs for ${cleanIcao}:`, error);
+        return [];
+      }),
+  ]);
+
+  const records = new Map<string, ObservationRecord>();
+  for (const record of [...archived, ...recent]) {
+    if (record.obs_time_unix >= from) records.set(`${record.obs_time_unix}|${record.raw}`, record);
+  }
+  return Array.from(records.values()).sort((a, b) => a.obs_time_unix - b.obs_time_unix);
+}
+
+// Fetch the stations inside one map tile. Errors (including 429s) are rethrown so the
+// tile is retried and keeps its last good data, instead of caching an empty tile.
+async function fetchBboxMetars(bbox: BoundingBox): Promise<MetarData[]> {
+  try {
+    const response = await axios.get(`${API_BASE}/bbox`, { params: { bbox: formatBoundingBox(bbox) } });
+    return metarListSchema.parse(response.data);
+  } catch (error) {
+    console.error(`Failed to fetch METARs for bbox ${formatBoundingBox(bbox)}:`, error);
+    throw error;
   }
 }
 
 // Hook for single METAR
 export function useMetar(icao: string | null) {
+  const refetchInterval = usePollingInterval(5 * 60 * 1000);
   return useQuery({
     queryKey: ["metar", icao],
     queryFn: () => (icao ? fetchMetar(icao) : null),
-    enabled: !!icao && icao.length >= 4,
+    enabled: !!icao && icao.length >= 3,
     staleTime: 5 * 60 * 1000,
-    refetchInterval: 5 * 60 * 1000,
+    refetchInterval,
   });
 }
 
@@ -77,18 +178,162 @@ export function useTaf(icao: string | null) {
   return useQuery({
     queryKey: ["taf", icao],
     queryFn: () => (icao ? fetchTaf(icao) : null),
-    enabled: !!icao && icao.length >= 4,
+    enabled: !!icao && icao.length >= 3,
     staleTime: 15 * 60 * 1000,
     refetchInterval: 15 * 60 * 1000,
   });
 }
 
-// Hook for all US METARs
-export function useAllUSMetars() {
+// Hook for a station's observation history, used by the trend charts
+export function useMetarHistory(icao: string | null, hours = 72) {
   return useQuery({
-    queryKey: ["all-us-metars"],
-    queryFn: fetchAllUSMetars,
+    queryKey: ["metar-history", icao, hours],
+    queryFn: () => (icao ? fetchMetarHistory(icao, hours) : []),
+    enabled: !!icao,
+    staleTime: 5 * 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+const selectMetars = (snapshot: MetarSnapshot) => snapshot.metars;
+const selectMeta = (snapshot: MetarSnapshot) => snapshot.meta;
+
+// Each refetch sends the cached snapshot's version so only the changes come back
+const allMetarsQuery = (
+  queryClient: QueryClient,
+  region: string | null | undefined,
+  refetchInterval: number,
+  enabled: boolean
+) => {
+  const queryKey = ["all-us-metars", region ?? null];
+  return {
+    queryKey,
+    queryFn: () => fetchAllUSMetars(region, queryClient.getQueryData<MetarSnapshot>(queryKey)),
     staleTime: 5 * 60 * 1000, // Match the API cache time
+    refetchInterval,
+    enabled,
+  };
+};
+
+// Hook for all METARs in the selected coverage region; pass enabled=false to stop fetching it
+export function useAllUSMetars(region?: string | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const refetchInterval = usePollingInterval(5 * 60 * 1000);
+  return useQuery({
+    ...allMetarsQuery(queryClient, region, refetchInterval, enabled),
+    select: selectMetars,
+  });
+}
+
+// Hook for the freshness of the coverage snapshot; shares the useAllUSMetars query
+export function useSnapshotMeta(region?: string | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const refetchInterval = usePollingInterval(5 * 60 * 1000);
+  return useQuery({
+    ...allMetarsQuery(queryClient, region, refetchInterval, enabled),
+    select: selectMeta,
+  });
+}
+
+// Merge per-tile results; kept at module scope so React Query can memoize it
+function combineTileResults(results: UseQueryResult<MetarData[]>[]) {
+  const stationMap = new Map<string, MetarData>();
+  for (const result of results) {
+    for (const metar of result.data ?? []) stationMap.set(metar.icao, metar);
+  }
+  return {
+    data: Array.from(stationMap.values()),
+    isLoading: results.some((r) => r.isLoading),
+    isError: results.some((r) => r.isError),
+  };
+}
+
+// Hook for the stations in the map viewport. The viewport is split into fixed
+// grid tiles, each its own query, so panning back or zooming reuses cached tiles.
+export function useViewportMetars(bounds: BoundingBox | null) {
+  const tiles = useMemo(() => (bounds ? viewportTiles(bounds) : []), [bounds]);
+  const refetchInterval = usePollingInterval(5 * 60 * 1000);
+
+  return useQueries({
+    queries: tiles.map((tile) => ({
+      queryKey: ["metar-bbox", formatBoundingBox(tile)],
+      queryFn: () => fetchBboxMetars(tile),
+      staleTime: 5 * 60 * 1000,
+      gcTime: 30 * 60 * 1000,
+      refetchInterval,
+    })),
+    combine: combineTileResults,
+  });
+}
+
+// Fetch the current SIGMETs, AIRMETs or G-AIRMETs
+async function fetchAdvisories(type: "sigmet" | "airmet" | "gairmet"): Promise<Advisory[]> {
+  try {
+    const response = await axios.get(API_BASE, { params: { type, format: "json" } });
+    const advisories = advisoryListSchema.parse(response.data);
+    return type === "gairmet" ? currentGairmets(advisories) : advisories;
+  } catch (error) {
+    console.error(`Failed to fetch ${type} advisories:`, error);
+    return [];
+  }
+}
+
+// Fetch the PIREPs inside an area
+async function fetchPireps(bbox: BoundingBox): Promise<PilotReport[]> {
+  try {
+    const response = await axios.get(API_BASE, { params: { type: "pirep", bbox: formatBoundingBox(bbox), format: "json" } });
+    return pilotReportListSchema.parse(response.data);
+  } catch (error) {
+    console.error(`Failed to fetch PIREPs for bbox ${formatBoundingBox(bbox)}:`, error);
+    return [];
+  }
+}
+
+const ADVISORY_TYPES = ["sigmet", "airmet", "gairmet"] as const;
+
+function combineAdvisoryResults(results: UseQueryResult<Advisory[]>[]) {
+  return results.flatMap((result) => result.data ?? []);
+}
+
+// Hook for the SIGMET, AIRMET and G-AIRMET map layers; only the enabled ones are fetched.
+// Advisories are not pushed over the live stream, so they are always polled.
+export function useAdvisories(layers: HazardLayer[]) {
+  return useQueries({
+    queries: ADVISORY_TYPES.map((type) => ({
+      queryKey: ["advisories", type],
+      queryFn: () => fetchAdvisories(type),
+      enabled: layers.includes(type),
+      staleTime: 5 * 60 * 1000,
+      refetchInterval: 5 * 60 * 1000,
+    })),
+    combine: combineAdvisoryResults,
+  });
+}
+
+// The viewport snapped outward to the tile grid, so small pans reuse the cached reports.
+// PIREPs are sparse, so the whole area is one request rather than one per tile.
+function pirepArea(bounds: BoundingBox): BoundingBox | null {
+  const tiles = viewportTiles(bounds);
+  const cover = (): BoundingBox => ({
+    minLat: Math.min(...tiles.map((t) => t.minLat)),
+    minLon: Math.min(...tiles.map((t) => t.minLon)),
+    maxLat: Math.max(...tiles.map((t) => t.maxLat)),
+    maxLon: Math.max(...tiles.map((t) => t.maxLon)),
+  });
+  // Drop the outermost tiles until the covering box is within what the API accepts
+  while (tiles.length > 0 && boundingBoxTileCount(cover()) > MAX_VIEWPORT_TILES) tiles.pop();
+  return tiles.length > 0 ? cover() : null;
+}
+
+// Hook for the PIREP map layer; pass null bounds to turn it off
+export function usePireps(bounds: BoundingBox | null) {
+  const area = useMemo(() => (bounds ? pirepArea(bounds) : null), [bounds]);
+
+  return useQuery({
+    queryKey: ["pireps", area ? formatBoundingBox(area) : null],
+    queryFn: () => (area ? fetchPireps(area) : []),
+    enabled: !!area,
+    staleTime: 5 * 60 * 1000,
     refetchInterval: 5 * 60 * 1000,
   });
 }
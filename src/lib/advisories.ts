@@ -0,0 +1,207 @@
+import {
+    Advisory,
+    AwcAirSigmetResponse,
+    AwcGairmetResponse,
+    AwcPirepResponse,
+    BoundingBox,
+    HazardLayer,
+    HazardType,
+    LatLon,
+    PilotReport,
+} from "@/types";
+import { inBoundingBox } from "@/lib/coverage";
+
+// AWC hazard names, across the SIGMET/AIRMET and G-AIRMET products
+const hazardTypes: Record<string, HazardType> = {
+    CONVECTIVE: "CONVECTIVE",
+    TS: "CONVECTIVE",
+    TURB: "TURB",
+    "TURB-HI": "TURB",
+    "TURB-LO": "TURB",
+    ICE: "ICE",
+    IFR: "IFR",
+    "MTN OBSCN": "MTN_OBSCN",
+    MT_OBSC: "MTN_OBSCN",
+    LLWS: "LLWS",
+    SFC_WND: "SFC_WND",
+    "SFC WND": "SFC_WND",
+    FZLVL: "FZLVL",
+    M_FZLVL: "FZLVL",
+    ASH: "ASH",
+    VA: "ASH",
+};
+
+function hazardType(hazard: string | undefined): HazardType {
+    return hazardTypes[(hazard ?? "").toUpperCase().trim()] ?? "OTHER";
+}
+
+// Hazard colors shared by the map layers and their legend
+export const hazardColors: Record<HazardType, string> = {
+    CONVECTIVE: "#ef4444",
+    TURB: "#f97316",
+    ICE: "#22d3ee",
+    IFR: "#d946ef",
+    MTN_OBSCN: "#a16207",
+    LLWS: "#b91c1c",
+    SFC_WND: "#84cc16",
+    FZLVL: "#38bdf8",
+    ASH: "#9ca3af",
+    OTHER: "#eab308",
+};
+
+export const hazardLabels: Record<HazardType, string> = {
+    CONVECTIVE: "Convective",
+    TURB: "Turbulence",
+    ICE: "Icing",
+    IFR: "IFR",
+    MTN_OBSCN: "Mountain obscuration",
+    LLWS: "Low-level wind shear",
+    SFC_WND: "Surface wind",
+    FZLVL: "Freezing level",
+    ASH: "Volcanic ash",
+    OTHER: "Other",
+};
+
+function toCoordinates(coords: Array<{ lat: number | string; lon: number | string }> | undefined): LatLon[] {
+    return (coords ?? [])
+        .map((c) => ({ lat: Number(c.lat), lon: Number(c.lon) }))
+        .filter((c) => Number.isFinite(c.lat) && Number.isFinite(c.lon));
+}
+
+// "SEV" or "MOD" as stated in the text; LGT and OCNL qualifiers are not tracked
+function severityFromText(raw: string): string | null {
+    return raw.match(/\b(EXTRM|SEV|MOD)\b/)?.[1] ?? null;
+}
+
+// G-AIRMET levels are hundreds of feet, or SFC; FZL (the freezing level) has no fixed altitude
+function gairmetLevel(level: string | number | null | undefined): number | null {
+    if (level === null || level === undefined) return null;
+    if (String(level).toUpperCase() === "SFC") return 0;
+    const hundreds = Number(level);
+    return Number.isFinite(hundreds) ? hundreds * 100 : null;
+}
+
+export function transformAirSigmet(awc: AwcAirSigmetResponse, index: number): Advisory {
+    const product = awc.airSigmetType?.toUpperCase() === "SIGMET" ? "SIGMET" : "AIRMET";
+    const series = awc.seriesId ?? awc.alphaChar ?? "";
+    return {
+        id: String(awc.airSigmetId ?? `${awc.icaoId ?? ""}-${series}-${awc.validTimeFrom}-${index}`),
+        product,
+        hazard: hazardType(awc.hazard),
+        // AWC's numeric severity scale is undocumented, so only a stated word is used
+        severity:
+            typeof awc.severity === "string" && awc.severity ? awc.severity : severityFromText(awc.rawAirSigmet ?? ""),
+        valid_from: new Date(awc.validTimeFrom * 1000).toISOString(),
+        valid_to: new Date(awc.validTimeTo * 1000).toISOString(),
+        forecast_hour: null,
+        base_ft: awc.altitudeLow1 ?? null,
+        top_ft: awc.altitudeHi1 ?? null,
+        geometry: "polygon",
+        coordinates: toCoordinates(awc.coords),
+        raw: awc.rawAirSigmet ?? null,
+    };
+}
+
+export function transformGairmet(awc: AwcGairmetResponse, index: number): Advisory {
+    const validTime = new Date(awc.validTime).toISOString();
+    return {
+        id: `${awc.product ?? "GAIRMET"}-${awc.tag ?? ""}-${awc.hazard}-${awc.forecastHour}-${index}`,
+        product: "G-AIRMET",
+        hazard: hazardType(awc.hazard),
+        severity: awc.severity || null,
+        valid_from: validTime,
+        valid_to: validTime,
+        forecast_hour: awc.forecastHour,
+        base_ft: gairmetLevel(awc.base),
+        top_ft: gairmetLevel(awc.top),
+        geometry: awc.geometryType?.toUpperCase() === "LINE" ? "line" : "polygon",
+        coordinates: toCoordinates(awc.coords),
+        raw: null,
+        ...(awc.due_to ? { description: awc.due_to } : {}),
+    };
+}
+
+function intensityAndType(intensity: string | null | undefined, type: string | null | undefined): string | null {
+    const text = [intensity, type].filter(Boolean).join(" ");
+    return text || null;
+}
+
+export function transformPirep(awc: AwcPirepResponse, index: number): PilotReport {
+    const level = Number(awc.fltLvl);
+    return {
+        id: String(awc.pirepId ?? `${awc.obsTime}-${awc.lat}-${awc.lon}-${index}`),
+        raw: awc.rawOb,
+        urgent: awc.pirepType?.toUpperCase().startsWith("URGENT") || / UUA /.test(` ${awc.rawOb} `),
+        aircraft: awc.acType || null,
+        observed_at: new Date(awc.obsTime * 1000).toISOString(),
+        obs_time_unix: awc.obsTime * 1000,
+        latitude: awc.lat,
+        longitude: awc.lon,
+        // Flight level in hundreds of feet; "DURC" (during climb) and the like have none
+        altitude_ft: awc.fltLvl !== null && awc.fltLvl !== undefined && Number.isFinite(level) ? level * 100 : null,
+        turbulence: intensityAndType(awc.tbInt1, awc.tbType1),
+        icing: intensityAndType(awc.icgInt1, awc.icgType1),
+        weather: awc.wxString || null,
+        temperature_c: awc.temp ?? null,
+        wind_direction: awc.wdir ?? null,
+        wind_speed_kt: awc.wspd ?? null,
+    };
+}
+
+// Whether any part of the area's outline falls inside the box, or the box inside the area's extent
+export function advisoryInBoundingBox(advisory: Advisory, bbox: BoundingBox): boolean {
+    const { coordinates } = advisory;
+    if (coordinates.some((c) => inBoundingBox(c.lat, c.lon, bbox))) return true;
+    const lats = coordinates.map((c) => c.lat);
+    const lons = coordinates.map((c) => c.lon);
+    return (
+        coordinates.length > 0 &&
+        Math.min(...lats) <= bbox.maxLat &&
+        Math.max(...lats) >= bbox.minLat &&
+        Math.min(...lons) <= bbox.maxLon &&
+        Math.max(...lons) >= bbox.minLon
+    );
+}
+
+// G-AIRMETs come as 3-hourly snapshots; the map shows the earliest one still available
+export function currentGairmets(advisories: Advisory[]): Advisory[] {
+    const hours = advisories.map((a) => a.forecast_hour).filter((h): h is number => h !== null);
+    if (hours.length === 0) return advisories;
+    const earliest = Math.min(...hours);
+    return advisories.filter((a) => a.forecast_hour === null || a.forecast_hour === earliest);
+}
+
+export const hazardLayerLabels: Record<HazardLayer, string> = {
+    sigmet: "SIGMET",
+    airmet: "AIRMET",
+    gairmet: "G-AIRMET",
+    pirep: "PIREP",
+};
+
+export const advisoryLayers: Record<Advisory["product"], HazardLayer> = {
+    SIGMET: "sigmet",
+    AIRMET: "airmet",
+    "G-AIRMET": "gairmet",
+};
+
+function formatLevel(ft: number): string {
+    if (ft === 0) return "SFC";
+    return ft >= 18000 ? `FL${Math.round(ft / 100)}` : `${ft.toLocaleString()} ft`;
+}
+
+// "FL250–FL390", "SFC–12,000 ft" or "to FL410"; null when no altitudes are given
+export function formatAdvisoryLevels(advisory: Advisory): string | null {
+    const { base_ft: base, top_ft: top } = advisory;
+    if (base === null && top === null) return null;
+    if (base === null) return `to ${formatLevel(top!)}`;
+    if (top === null) return `from ${formatLevel(base)}`;
+    return `${formatLevel(base)}–${formatLevel(top)}`;
+}
+
+// Turbulence takes precedence over icing when a report has both
+export function pirepHazard(pirep: PilotReport): HazardType | null {
+    if (pirep.turbulence) return "TURB";
+    if (pirep.icing) return "ICE";
+    if (pirep.weather && /TS/.test(pirep.weather)) return "CONVECTIVE";
+    return null;
+}
@@ -0,0 +1,339 @@
+import {
+    Advisory,
+    AwcMetarResponse,
+    AwcTafResponse,
+    IngestSummary,
+    MaintenanceData,
+    MaintenanceStationStatus,
+    MetarData,
+    MetarRemarks,
+    MetarSnapshot,
+    MetarSnapshotDelta,
+    MetarTrend,
+    ObservationRecord,
+    OutageEvent,
+    PilotReport,
+    RunwayVisualRange,
+    SnapshotMeta,
+    SnapshotRegionStatus,
+} from "@/types";
+import { s, Schema } from "@/lib/schema";
+
+// Runtime counterparts of the public API types. Each is annotated with its
+// interface, so the compiler flags a schema that falls behind the type.
+
+export const flightCategorySchema = s.enumOf(["VFR", "MVFR", "IFR", "LIFR"]).named("FlightCategory");
+
+const nullableNumber = () => s.number().nullable();
+
+const cloudLayerSchema = s.object({
+    cover: s.string(),
+    base_ft: s.number(),
+    type: s.enumOf(["CB", "TCU"]).optional(),
+});
+
+export const runwayVisualRangeSchema: Schema<RunwayVisualRange> = s
+    .object({
+        runway: s.string().describe("Runway designator, e.g. 28L"),
+        visibility_ft: s.number(),
+        variable_max_ft: nullableNumber(),
+        modifier: s.enumOf(["M", "P"]).nullable().describe("M: below, P: above the reportable range"),
+        trend: s.enumOf(["U", "D", "N"]).nullable().describe("Upward, downward or no change"),
+    })
+    .named("RunwayVisualRange");
+
+export const metarTrendSchema: Schema<MetarTrend> = s
+    .object({
+        type: s.enumOf(["NOSIG", "BECMG", "TEMPO"]),
+        raw: s.string(),
+        from: s.string().nullable().describe("FMhhmm"),
+        until: s.string().nullable().describe("TLhhmm"),
+        at: s.string().nullable().describe("AThhmm"),
+        wind_direction: nullableNumber(),
+        wind_speed_kt: nullableNumber(),
+        wind_gust_kt: nullableNumber(),
+        visibility_m: nullableNumber(),
+        cavok: s.boolean(),
+        no_significant_weather: s.boolean(),
+        weather: s.array(s.string()),
+        clouds: s.array(cloudLayerSchema),
+    })
+    .named("MetarTrend");
+
+export const metarRemarksSchema: Schema<MetarRemarks> = s
+    .object({
+        raw: s.string(),
+        station_type: s.enumOf(["AO1", "AO2"]).nullable(),
+        sea_level_pressure_hpa: nullableNumber(),
+        precise_temperature_c: nullableNumber(),
+        precise_dewpoint_c: nullableNumber(),
+        peak_wind: s
+            .object({ direction: s.number(), speed_kt: s.number(), time: s.string() })
+            .nullable(),
+        wind_shift: s.object({ time: s.string(), frontal_passage: s.boolean() }).nullable(),
+        pressure_tendency: s.object({ character: s.number(), change_hpa: s.number() }).nullable(),
+        sensor_status: s.array(
+            s.object({
+                indicator: s.enumOf(["PWINO", "FZRANO", "TSNO", "RVRNO", "VISNO", "CHINO", "PNO"]),
+                location: s.string().nullable(),
+            })
+        ),
+    })
+    .named("MetarRemarks");
+
+export const metarDataSchema: Schema<MetarData> = s
+    .object({
+        icao: s.string(),
+        raw: s.string(),
+        station_name: s.string(),
+        latitude: s.number(),
+        longitude: s.number(),
+        elevation_m: s.number(),
+        observed_at: s.string().describe("Observation time, ISO 8601"),
+        observation_time: s.string().describe("Observation time as reported, e.g. 171553Z"),
+        obs_time_unix: s.number().describe("Observation time, Unix milliseconds"),
+        wind_direction: nullableNumber().describe("Degrees true; null when calm or variable"),
+        wind_speed_kt: nullableNumber(),
+        wind_gust_kt: nullableNumber(),
+        wind_variable_from: nullableNumber().optional(),
+        wind_variable_to: nullableNumber().optional(),
+        visibility_sm: s.union(s.number(), s.string()).describe('Statute miles; a string for values like "10+"'),
+        visibility_m: nullableNumber().optional(),
+        visibility_unit: s.enumOf(["SM", "m"]).optional(),
+        directional_visibility: s
+            .object({ distance_m: s.number(), direction: s.string() })
+            .nullable()
+            .optional(),
+        cavok: s.boolean().optional(),
+        runway_visual_range: s.array(runwayVisualRangeSchema).optional(),
+        temperature_c: nullableNumber(),
+        dewpoint_c: nullableNumber(),
+        altimeter_hg: nullableNumber(),
+        altimeter_hpa: nullableNumber().optional(),
+        altimeter_unit: s.enumOf(["inHg", "hPa"]).optional(),
+        flight_category: flightCategorySchema,
+        clouds: s.array(cloudLayerSchema),
+        weather: s.array(s.string()).describe("Present weather groups, e.g. -RA, BR"),
+        has_maintenance_flag: s.boolean().describe("The report ends in $: the station needs maintenance"),
+        metar_type: s.string(),
+        is_auto: s.boolean().optional(),
+        is_corrected: s.boolean().optional(),
+        trend: s.array(metarTrendSchema).optional().describe("TREND forecasts appended to ICAO reports"),
+        remarks: metarRemarksSchema.optional().describe("Decoded RMK section"),
+    })
+    .named("MetarData");
+
+export const snapshotRegionStatusSchema: Schema<SnapshotRegionStatus> = s
+    .object({
+        id: s.string(),
+        label: s.string(),
+        status: s.enumOf(["ok", "stale", "failed"]),
+        stations: s.number({ integer: true, minimum: 0 }),
+        fetchedAt: nullableNumber().describe("When the data served for this region was fetched, Unix milliseconds"),
+        error: s.string().optional(),
+    })
+    .named("SnapshotRegionStatus");
+
+export const snapshotMetaSchema: Schema<SnapshotMeta> = s
+    .object({
+        version: s.string().optional().describe("Content version; also the ETag and the `since` cursor"),
+        generatedAt: s.number(),
+        dataAgeSeconds: nullableNumber(),
+        stale: s.boolean(),
+        incomplete: s.boolean(),
+        regions: s.array(snapshotRegionStatusSchema),
+    })
+    .named("SnapshotMeta");
+
+export const metarListSchema = s.array(metarDataSchema);
+
+export const metarSnapshotSchema: Schema<MetarSnapshot> = s
+    .object({ meta: snapshotMetaSchema, metars: s.array(metarDataSchema) })
+    .named("MetarSnapshot");
+
+export const metarSnapshotDeltaSchema: Schema<MetarSnapshotDelta> = s
+    .object({
+        meta: snapshotMetaSchema,
+        since: s.string(),
+        changed: s.array(metarDataSchema),
+        removed: s.array(s.string()),
+    })
+    .named("MetarSnapshotDelta");
+
+export const hazardTypeSchema = s
+    .enumOf(["CONVECTIVE", "TURB", "ICE", "IFR", "MTN_OBSCN", "LLWS", "SFC_WND", "FZLVL", "ASH", "OTHER"])
+    .named("HazardType");
+
+export const advisorySchema: Schema<Advisory> = s
+    .object({
+        id: s.string(),
+        product: s.enumOf(["SIGMET", "AIRMET", "G-AIRMET"]),
+        hazard: hazardTypeSchema,
+        severity: s.string().nullable().describe("e.g. MOD or SEV; null when not stated"),
+        valid_from: s.string().describe("ISO 8601; a G-AIRMET is a snapshot, so both times are its valid time"),
+        valid_to: s.string(),
+        forecast_hour: nullableNumber().describe("G-AIRMET hours after issuance"),
+        base_ft: nullableNumber().describe("0 is the surface; null when unstated"),
+        top_ft: nullableNumber(),
+        geometry: s.enumOf(["polygon", "line"]).describe("Freezing level G-AIRMETs are contour lines"),
+        coordinates: s.array(s.object({ lat: s.number(), lon: s.number() })),
+        raw: s.string().nullable().describe("Report text; null for G-AIRMETs"),
+        description: s.string().optional(),
+    })
+    .named("Advisory");
+
+export const advisoryListSchema = s.array(advisorySchema);
+
+export const pilotReportSchema: Schema<PilotReport> = s
+    .object({
+        id: s.string(),
+        raw: s.string(),
+        urgent: s.boolean().describe("An urgent (UUA) report"),
+        aircraft: s.string().nullable(),
+        observed_at: s.string(),
+        obs_time_unix: s.number().describe("Unix milliseconds"),
+        latitude: s.number(),
+        longitude: s.number(),
+        altitude_ft: nullableNumber(),
+        turbulence: s.string().nullable().describe("Intensity and type, e.g. MOD CAT"),
+        icing: s.string().nullable().describe("Intensity and type, e.g. LGT RIME"),
+        weather: s.string().nullable(),
+        temperature_c: nullableNumber(),
+        wind_direction: nullableNumber(),
+        wind_speed_kt: nullableNumber(),
+    })
+    .named("PilotReport");
+
+export const pilotReportListSchema = s.array(pilotReportSchema);
+
+// Upstream records are passed through as received; only the fields every provider sets are checked
+const awcCloudsSchema = s.array(s.object({ cover: s.string(), base: s.number().nullable().optional() })).optional();
+
+export const awcMetarSchema: Schema<Pick<AwcMetarResponse, "icaoId" | "rawOb" | "obsTime">> = s
+    .object({
+        icaoId: s.string(),
+        rawOb: s.string(),
+        name: s.string().optional(),
+        lat: s.number().optional(),
+        lon: s.number().optional(),
+        elev: s.number().optional(),
+        obsTime: s.number().describe("Observation time, Unix seconds"),
+        reportTime: s.string().optional(),
+        temp: nullableNumber().optional(),
+        dewp: nullableNumber().optional(),
+        wdir: s.union(s.number(), s.string()).nullable().optional(),
+        wspd: nullableNumber().optional(),
+        wgst: nullableNumber().optional(),
+        visib: s.union(s.number(), s.string()).nullable().optional(),
+        altim: nullableNumber().optional(),
+        fltCat: s.string().nullable().optional(),
+        clouds: awcCloudsSchema,
+        wxString: s.string().nullable().optional(),
+        metarType: s.string().optional(),
+    })
+    .describe("METAR as published by aviationweather.gov")
+    .named("AwcMetar");
+
+export const awcTafSchema: Schema<Pick<AwcTafResponse, "icaoId" | "rawTAF">> = s
+    .object({
+        icaoId: s.string(),
+        rawTAF: s.string(),
+        name: s.string().optional(),
+        issueTime: s.string().optional(),
+        validTimeFrom: s.number().optional(),
+        validTimeTo: s.number().optional(),
+        fcsts: s.array(s.unknown()).optional(),
+    })
+    .describe("TAF as published by aviationweather.gov")
+    .named("AwcTaf");
+
+export const awcMetarListSchema = s.array(awcMetarSchema);
+export const awcTafListSchema = s.array(awcTafSchema);
+
+export const outageEventSchema: Schema<OutageEvent> = s
+    .object({
+        icao: s.string(),
+        stationName: s.string(),
+        startTime: s.number().describe("Observation time the $ flag first appeared, Unix milliseconds"),
+        startTimeZulu: s.string(),
+        endTime: nullableNumber().describe("Null while the outage is ongoing"),
+        endTimeZulu: s.string().nullable(),
+        duration: nullableNumber().describe("Minutes; null while the outage is ongoing"),
+    })
+    .named("OutageEvent");
+
+export const maintenanceStationStatusSchema: Schema<MaintenanceStationStatus> = s
+    .object({
+        hasFlag: s.boolean(),
+        lastSeen: s.number(),
+        lastObsTime: s.number(),
+        lastObsTimeZulu: s.string(),
+        stationName: s.string(),
+        flightCategory: flightCategorySchema.optional(),
+    })
+    .named("MaintenanceStationStatus");
+
+export const ingestSummarySchema: Schema<IngestSummary> = s
+    .object({
+        ingestedAt: s.number(),
+        stations: s.number({ integer: true, minimum: 0 }),
+        outagesStarted: s.number({ integer: true, minimum: 0 }),
+        outagesEnded: s.number({ integer: true, minimum: 0 }),
+        observationsRecorded: s.number({ integer: true, minimum: 0 }).optional(),
+    })
+    .named("IngestSummary");
+
+export const maintenanceDataSchema: Schema<MaintenanceData> = s
+    .object({
+        stationStatus: s.record(maintenanceStationStatusSchema),
+        outageLog: s.array(outageEventSchema),
+        lastIngest: ingestSummarySchema.optional(),
+    })
+    .named("MaintenanceData");
+
+export const observationRecordSchema: Schema<ObservationRecord> = s
+    .object({
+        icao: s.string(),
+        obs_time_unix: s.number(),
+        observation_time: s.string(),
+        metar_type: s.string(),
+        raw: s.string(),
+        flight_category: flightCategorySchema,
+        temperature_c: nullableNumber(),
+        dewpoint_c: nullableNumber(),
+        wind_direction: nullableNumber(),
+        wind_speed_kt: nullableNumber(),
+        wind_gust_kt: nullableNumber(),
+        visibility_sm: s.union(s.number(), s.string()),
+        altimeter_hg: nullableNumber(),
+        ceiling_ft: nullableNumber(),
+        weather: s.array(s.string()),
+        has_maintenance_flag: s.boolean(),
+    })
+    .named("ObservationRecord");
+
+export const stationHistorySchema = s
+    .object({
+        icao: s.string(),
+        from: s.number(),
+        to: s.number(),
+        retentionDays: s.number(),
+        observations: s.array(observationRecordSchema),
+    })
+    .named("StationHistory");
+
+export const API_ERROR_CODES = [
+    "INVALID_PARAMETER",
+    "MISSING_PARAMETER",
+    "RATE_LIMITED",
+    "UPSTREAM_ERROR",
+    "INTERNAL_ERROR",
+] as const;
+
+export const apiErrorSchema = s
+    .object({
+        error: s.string(),
+        code: s.enumOf(API_ERROR_CODES).optional(),
+        field: s.string().optional().describe("The query parameter that failed validation"),
+    })
+    .named("ApiError");
@@ -0,0 +1,158 @@
+import { BoundingBox } from "@/types";
+import type { StationQuery } from "@/lib/providers/types";
+import regionData from "@/data/regions.json";
+
+/**
+ * A named coverage area. Regions combine US states, ISO country codes and
+ * bounding boxes, and can include other regions to form larger sets.
+ */
+export interface CoverageRegion {
+    id: string;
+    name: string;
+    states?: string[];
+    countries?: string[];
+    bboxes?: BoundingBox[];
+    include?: string[];
+}
+
+export const coverageRegions: CoverageRegion[] = regionData;
+
+export const DEFAULT_COVERAGE = "us";
+
+// Geographic extent of each supported country, used to fetch by country from bbox-only sources
+export const COUNTRY_EXTENTS: Record<string, BoundingBox[]> = {
+    US: [
+        { minLat: 24.4, minLon: -125.0, maxLat: 49.5, maxLon: -66.9 },
+        { minLat: 51.0, minLon: -180.0, maxLat: 71.5, maxLon: -129.9 },
+        { minLat: 18.8, minLon: -160.3, maxLat: 22.3, maxLon: -154.7 },
+        { minLat: 17.6, minLon: -67.5, maxLat: 18.6, maxLon: -64.5 },
+        { minLat: 13.2, minLon: 144.5, maxLat: 15.3, maxLon: 146.0 },
+    ],
+    CA: [{ minLat: 41.6, minLon: -141.1, maxLat: 83.2, maxLon: -52.6 }],
+    MX: [{ minLat: 14.5, minLon: -118.5, maxLat: 32.8, maxLon: -86.7 }],
+    GB: [{ minLat: 49.8, minLon: -8.7, maxLat: 60.9, maxLon: 1.8 }],
+    IE: [{ minLat: 51.4, minLon: -10.7, maxLat: 55.4, maxLon: -5.9 }],
+    FR: [{ minLat: 41.3, minLon: -5.2, maxLat: 51.1, maxLon: 9.6 }],
+    DE: [{ minLat: 47.2, minLon: 5.8, maxLat: 55.1, maxLon: 15.1 }],
+    JP: [{ minLat: 24.0, minLon: 122.9, maxLat: 45.6, maxLon: 146.0 }],
+    AU: [{ minLat: -43.7, minLon: 113.1, maxLat: -10.6, maxLon: 153.7 }],
+};
+
+// ICAO location indicator prefixes, for sources that only carry station IDs
+export const COUNTRY_ICAO_PREFIXES: Record<string, string[]> = {
+    US: ["K", "PA", "PH", "PG", "TJ", "TI", "NS"],
+    CA: ["C"],
+    MX: ["MM"],
+    GB: ["EG"],
+    IE: ["EI"],
+    FR: ["LF"],
+    DE: ["ED", "ET"],
+    JP: ["RJ", "RO"],
+    AU: ["Y"],
+};
+
+export function getCoverageRegion(id: string): CoverageRegion | undefined {
+    return coverageRegions.find((r) => r.id === id);
+}
+
+export function inBoundingBox(lat: number, lon: number, bbox: BoundingBox): boolean {
+    return lat >= bbox.minLat && lat <= bbox.maxLat && lon >= bbox.minLon && lon <= bbox.maxLon;
+}
+
+// "minLat,minLon,maxLat,maxLon" as used by the AWC API
+export function parseBoundingBox(text: string): BoundingBox | null {
+    const parts = text.split(",").map(Number);
+    if (parts.length !== 4 || parts.some(isNaN)) return null;
+    const [minLat, minLon, maxLat, maxLon] = parts;
+    if (minLat > maxLat || minLon > maxLon) return null;
+    if (minLat < -90 || maxLat > 90 || minLon < -180 || maxLon > 180) return null;
+    return { minLat, minLon, maxLat, maxLon };
+}
+
+export function formatBoundingBox(bbox: BoundingBox): string {
+    return [bbox.minLat, bbox.minLon, bbox.maxLat, bbox.maxLon].join(",");
+}
+
+/**
+ * Expand region IDs (following includes) into provider queries. States and
+ * countries are merged into one query each; every bounding box is its own query.
+ */
+export function resolveCoverage(regionIds: string[]): StationQuery[] {
+    const states = new Set<string>();
+    const countries = new Set<string>();
+    const bboxes: BoundingBox[] = [];
+    const seen = new Set<string>();
+
+    const visit = (id: string) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        const region = getCoverageRegion(id);
+        if (!region) {
+            throw new Error(`Unknown coverage region "${id}"`);
+        }
+        region.states?.forEach((s) => states.add(s.toLowerCase()));
+        region.countries?.forEach((c) => countries.add(c.toUpperCase()));
+        if (region.bboxes) bboxes.push(...region.bboxes);
+        region.include?.forEach(visit);
+    };
+    regionIds.forEach(visit);
+
+    const queries: StationQuery[] = [];
+    if (states.size > 0) queries.push({ kind: "states", states: Array.from(states) });
+    if (countries.size > 0) queries.push({ kind: "countries", countries: Array.from(countries) });
+    for (const bbox of bboxes) queries.push({ kind: "bbox", bbox });
+    return queries;
+}
+
+// Server-side default coverage, e.g. METAR_COVERAGE=us,canada,caribbean
+export function getConfiguredCoverage(): string[] {
+    const configured = (process.env.METAR_COVERAGE || DEFAULT_COVERAGE)
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    return configured.length > 0 ? configured : [DEFAULT_COVERAGE];
+}
+
+// Fixed grid used for viewport loading, so a tile fetched at one zoom level is reused at others
+export const VIEWPORT_TILE_DEG = 15;
+export const MAX_VIEWPORT_TILES = 48;
+
+// Grid tiles a box spans, without the cap; the bbox routes refuse boxes over MAX_VIEWPORT_TILES
+export function boundingBoxTileCount(bbox: BoundingBox): number {
+    const size = VIEWPORT_TILE_DEG;
+    const rows = Math.ceil(bbox.maxLat / size) - Math.floor(bbox.minLat / size);
+    const columns = Math.ceil(bbox.maxLon / size) - Math.floor(bbox.minLon / size);
+    return Math.max(rows, 1) * Math.max(columns, 1);
+}
+
+/**
+ * Grid tiles covering a viewport, clamped to valid coordinates. Tiles
+ * nearest the viewport centre come first so that, if the viewport is
+ * zoomed far out, the tiles dropped by the cap are the outermost ones.
+ */
+export function viewportTiles(bounds: BoundingBox): BoundingBox[] {
+    const size = VIEWPORT_TILE_DEG;
+    const minLat = Math.max(bounds.minLat, -90);
+    const maxLat = Math.min(bounds.maxLat, 90);
+    const minLon = Math.max(bounds.minLon, -180);
+    const maxLon = Math.min(bounds.maxLon, 180);
+    if (minLat >= maxLat || minLon >= maxLon) return [];
+
+    const tiles: BoundingBox[] = [];
+    for (let lat = Math.floor(minLat / size) * size; lat < maxLat; lat += size) {
+        for (let lon = Math.floor(minLon / size) * size; lon < maxLon; lon += size) {
+            tiles.push({
+                minLat: lat,
+                minLon: lon,
+                maxLat: Math.min(lat + size, 90),
+                maxLon: Math.min(lon + size, 180),
+            });
+        }
+    }
+
+    const centerLat = (minLat + maxLat) / 2;
+    const centerLon = (minLon + maxLon) / 2;
+    const distance = (t: BoundingBox) =>
+        Math.abs((t.minLat + t.maxLat) / 2 - centerLat) + Math.abs((t.minLon + t.maxLon) / 2 - centerLon);
+    return tiles.sort((a, b) => distance(a) - distance(b)).slice(0, MAX_VIEWPORT_TILES);
+}
@@ -0,0 +1,89 @@
+import { MetarData } from "@/types";
+import { metersToFeet } from "@/lib/units";
+
+export interface DerivedWeather {
+    pressure_altitude_ft: number | null;
+    density_altitude_ft: number | null;
+    relative_humidity_pct: number | null;
+    temp_dewpoint_spread_c: number | null;
+    estimated_cloud_base_ft_agl: number | null;
+    heat_index_c: number | null;
+    wind_chill_c: number | null;
+}
+
+const STANDARD_ALTIMETER_HG = 29.92;
+
+function cToF(c: number): number {
+    return (c * 9) / 5 + 32;
+}
+
+function fToC(f: number): number {
+    return ((f - 32) * 5) / 9;
+}
+
+export function pressureAltitudeFt(elevationFt: number, altimeterHg: number): number {
+    return Math.round(elevationFt + (STANDARD_ALTIMETER_HG - altimeterHg) * 1000);
+}
+
+// Standard rule of thumb: 120 ft per degree C above ISA temperature at that altitude
+export function densityAltitudeFt(pressureAltFt: number, tempC: number): number {
+    const isaTempC = 15 - (2 * pressureAltFt) / 1000;
+    return Math.round(pressureAltFt + 120 * (tempC - isaTempC));
+}
+
+// Magnus formula
+export function relativeHumidity(tempC: number, dewpointC: number): number {
+    const a = 17.625;
+    const b = 243.04;
+    const rh = 100 * Math.exp((a * dewpointC) / (b + dewpointC) - (a * tempC) / (b + tempC));
+    return Math.round(Math.min(rh, 100));
+}
+
+// Convective cloud base rises roughly 400 ft for each degree C of spread
+export function estimatedCloudBaseFt(tempC: number, dewpointC: number): number {
+    return Math.round(Math.max(tempC - dewpointC, 0) * 400 / 100) * 100;
+}
+
+// NWS Rothfusz regression, only meaningful at 80°F (27°C) and above
+export function heatIndexC(tempC: number, rh: number): number | null {
+    const t = cToF(tempC);
+    if (t < 80) return null;
+    const hi =
+        -42.379 +
+        2.04901523 * t +
+        10.14333127 * rh -
+        0.22475541 * t * rh -
+        0.00683783 * t * t -
+        0.05481717 * rh * rh +
+        0.00122874 * t * t * rh +
+        0.00085282 * t * rh * rh -
+        0.00000199 * t * t * rh * rh;
+    return Math.round(fToC(hi) * 10) / 10;
+}
+
+// NWS wind chill, defined for 50°F (10°C) and below with wind above 3 mph
+export function windChillC(tempC: number, windKt: number): number | null {
+    const t = cToF(tempC);
+    const mph = windKt * 1.15078;
+    if (t > 50 || mph <= 3) return null;
+    const wc = 35.74 + 0.6215 * t - 35.75 * Math.pow(mph, 0.16) + 0.4275 * t * Math.pow(mph, 0.16);
+    return Math.round(fToC(wc) * 10) / 10;
+}
+
+export function computeDerivedWeather(metar: MetarData): DerivedWeather {
+    const { temperature_c: temp, dewpoint_c: dew, altimeter_hg: altim } = metar;
+    const elevationFt = metersToFeet(metar.elevation_m);
+
+    const pressureAlt = altim !== null ? pressureAltitudeFt(elevationFt, altim) : null;
+    const rh = temp !== null && dew !== null ? relativeHumidity(temp, dew) : null;
+
+    return {
+        pressure_altitude_ft: pressureAlt,
+        density_altitude_ft: pressureAlt !== null && temp !== null ? densityAltitudeFt(pressureAlt, temp) : null,
+        relative_humidity_pct: rh,
+        temp_dewpoint_spread_c: temp !== null && dew !== null ? Math.round((temp - dew) * 10) / 10 : null,
+        estimated_cloud_base_ft_agl: temp !== null && dew !== null ? estimatedCloudBaseFt(temp, dew) : null,
+        heat_index_c: temp !== null && rh !== null ? heatIndexC(temp, rh) : null,
+        wind_chill_c: temp !== null && metar.wind_speed_kt !== null ? windChillC(temp, metar.wind_speed_kt) : null,
+    };
+}
@@ -0,0 +1,167 @@
+import { MetarData } from "@/types";
+import { cloudCoverCodes, decodeWeather, getCeilingFt } from "@/lib/metarUtils";
+
+export const EXPORT_FORMATS = ["csv", "geojson", "kml"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+    csv: "CSV (spreadsheets)",
+    geojson: "GeoJSON (GIS)",
+    kml: "KML (Google Earth)",
+};
+
+const contentTypes: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    geojson: "application/geo+json",
+    kml: "application/vnd.google-earth.kml+xml",
+};
+
+// KML colors are aabbggrr; same hues as the map markers
+const kmlCategoryColors: Record<MetarData["flight_category"], string> = {
+    VFR: "ff5ec522",
+    MVFR: "fff6823b",
+    IFR: "ff4444ef",
+    LIFR: "fff755a8",
+};
+
+type ExportValue = string | number | boolean | null;
+
+// CSV columns and the property order in GeoJSON and KML
+const EXPORT_COLUMNS = [
+    "icao",
+    "name",
+    "latitude",
+    "longitude",
+    "elevation_m",
+    "observed_at",
+    "observation_time",
+    "metar_type",
+    "flight_category",
+    "maintenance_flag",
+    "wind_direction_deg",
+    "wind_speed_kt",
+    "wind_gust_kt",
+    "visibility_sm",
+    "ceiling_ft",
+    "clouds",
+    "weather",
+    "temperature_c",
+    "dewpoint_c",
+    "altimeter_inhg",
+    "raw",
+] as const;
+
+function describeCloud(c: MetarData["clouds"][number]): string {
+    return `${cloudCoverCodes[c.cover] ?? c.cover} ${c.base_ft} ft${c.type ? ` ${c.type}` : ""}`;
+}
+
+// One flat record per station, with cloud layers and weather decoded to text
+export function exportProperties(m: MetarData): Record<(typeof EXPORT_COLUMNS)[number], ExportValue> {
+    return {
+        icao: m.icao,
+        name: m.station_name,
+        latitude: m.latitude,
+        longitude: m.longitude,
+        elevation_m: m.elevation_m,
+        observed_at: m.observed_at,
+        observation_time: m.observation_time,
+        metar_type: m.metar_type,
+        flight_category: m.flight_category,
+        maintenance_flag: m.has_maintenance_flag,
+        wind_direction_deg: m.wind_direction,
+        wind_speed_kt: m.wind_speed_kt,
+        wind_gust_kt: m.wind_gust_kt,
+        visibility_sm: typeof m.visibility_sm === "number" ? m.visibility_sm : String(m.visibility_sm),
+        ceiling_ft: getCeilingFt(m.clouds),
+        clouds: m.clouds.map(describeCloud).join("; "),
+        weather: m.weather.map(decodeWeather).join("; "),
+        temperature_c: m.temperature_c,
+        dewpoint_c: m.dewpoint_c,
+        altimeter_inhg: m.altimeter_hg,
+        raw: m.raw,
+    };
+}
+
+function csvCell(value: ExportValue): string {
+    if (value === null) return "";
+    let text = String(value);
+    // Spreadsheets evaluate text starting with these as a formula
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(metars: MetarData[]): string {
+    const rows = metars.map((m) => {
+        const properties = exportProperties(m);
+        return EXPORT_COLUMNS.map((column) => csvCell(properties[column])).join(",");
+    });
+    return [EXPORT_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function hasPosition(m: MetarData): boolean {
+    return Number.isFinite(m.latitude) && Number.isFinite(m.longitude);
+}
+
+export function toGeoJson(metars: MetarData[]): string {
+    return JSON.stringify({
+        type: "FeatureCollection",
+        features: metars.filter(hasPosition).map((m) => ({
+            type: "Feature",
+            id: m.icao,
+            geometry: { type: "Point", coordinates: [m.longitude, m.latitude, m.elevation_m] },
+            properties: exportProperties(m),
+        })),
+    });
+}
+
+function xml(text: string): string {
+    return text.replace(/[<>&'"]/g, (c) => `&${{ "<": "lt", ">": "gt", "&": "amp", "'": "apos", '"': "quot" }[c]};`);
+}
+
+export function toKml(metars: MetarData[]): string {
+    const styles = Object.entries(kmlCategoryColors).map(
+        ([category, color]) =>
+            `<Style id="${category}"><IconStyle><color>${color}</color><Icon><href>https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`
+    );
+    const placemarks = metars.filter(hasPosition).map((m) => {
+        const data = Object.entries(exportProperties(m))
+            .filter(([, value]) => value !== null)
+            .map(([name, value]) => `<Data name="${name}"><value>${xml(String(value))}</value></Data>`)
+            .join("");
+        const title = `${m.icao} ${m.flight_category}${m.has_maintenance_flag ? " $" : ""}`;
+        return [
+            "<Placemark>",
+            `<name>${xml(title)}</name>`,
+            `<description>${xml(m.station_name ? `${m.station_name}\n${m.raw}` : m.raw)}</description>`,
+            `<styleUrl>#${m.flight_category}</styleUrl>`,
+            `<ExtendedData>${data}</ExtendedData>`,
+            `<Point><coordinates>${m.longitude},${m.latitude},${m.elevation_m}</coordinates></Point>`,
+            "</Placemark>",
+        ].join("");
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+        "<name>METAR stations</name>",
+        ...styles,
+        ...placemarks,
+        "</Document></kml>",
+        "",
+    ].join("\n");
+}
+
+const serializers: Record<ExportFormat, (metars: MetarData[]) => string> = {
+    csv: toCsv,
+    geojson: toGeoJson,
+    kml: toKml,
+};
+
+export function serializeMetars(metars: MetarData[], format: ExportFormat): { body: string; contentType: string } {
+    return { body: serializers[format](metars), contentType: contentTypes[format] };
+}
+
+// e.g. metar-stations-20250117T1853Z.geojson
+export function exportFileName(format: ExportFormat, at: Date = new Date()): string {
+    const stamp = at.toISOString().slice(0, 16).replace(/[-:]/g, "");
+    return `metar-stations-${stamp}Z.${format}`;
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { parseMetar } from "@/lib/metarUtils";
+
+// The archive falls back to files under the working directory when Redis isn't configured
+let dir: string;
+let history: typeof import("@/lib/history");
+
+beforeAll(async () => {
+    vi.stubEnv("UPSTASH_REDIS_REST_URL", "");
+    vi.stubEnv("UPSTASH_REDIS_REST_TOKEN", "");
+    vi.stubEnv("HISTORY_RETENTION_DAYS", "");
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "metar-history-test-"));
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    history = await import("@/lib/history");
+});
+
+afterAll(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+// A report observed `minutesAgo` before now, with a DDHHMMZ group that resolves to that time
+function report(icao: string, minutesAgo: number, body = "08010KT 10SM CLR 10/05 A2992", type = "METAR") {
+    const observed = new Date(Date.now() - minutesAgo * 60 * 1000);
+    const time = [observed.getUTCDate(), observed.getUTCHours(), observed.getUTCMinutes()]
+        .map((n) => String(n).padStart(2, "0"))
+        .join("");
+    const raw = `${type === "SPECI" ? "SPECI " : ""}${icao} ${time}Z ${body}`;
+    return parseMetar(raw, {}, new Date());
+}
+
+describe("recordObservations", () => {
+    const first = report("KAAA", 60);
+    const second = report("KAAA", 120);
+    // Same observation time as `first`, different report
+    const speci = report("KAAA", 60, "08010KT 2SM BR OVC008 10/09 A2992", "SPECI");
+    const other = report("KBBB", 60);
+    const expired = report("KCCC", 10 * 24 * 60); // past the default 7 days
+
+    // Run in order: each step records into the archive the previous steps built
+    it.each([
+        { step: "new records are added", batch: [first, second], added: 2, stored: { KAAA: 2 } },
+        { step: "a repeated batch adds nothing", batch: [first, second], added: 0, stored: { KAAA: 2 } },
+        { step: "duplicates within a batch count once", batch: [other, other], added: 1, stored: { KAAA: 2, KBBB: 1 } },
+        { step: "a SPECI at the same time is kept", batch: [speci, first], added: 1, stored: { KAAA: 3, KBBB: 1 } },
+        { step: "records past retention are skipped", batch: [expired], added: 0, stored: { KAAA: 3, KBBB: 1, KCCC: 0 } },
+        { step: "an empty batch adds nothing", batch: [], added: 0, stored: { KAAA: 3, KBBB: 1 } },
+    ])("$step", async ({ batch, added, stored }) => {
+        expect(await history.recordObservations(batch)).toBe(added);
+        for (const [icao, count] of Object.entries(stored)) {
+            const records = await history.getStationHistory(icao, 0, Date.now());
+            expect(records).toHaveLength(count);
+        }
+    });
+
+    it("returns a station's records oldest first", async () => {
+        const records = await history.getStationHistory("KAAA", 0, Date.now());
+        expect(records.map((r) => r.raw)).toEqual([second.raw, first.raw, speci.raw]);
+    });
+});
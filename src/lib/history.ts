@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MetarData, ObservationRecord } from "@/types";
+import { toObservationRecord } from "@/lib/metarUtils";
+import { getRedis } from "@/lib/maintenance";
+
+const HISTORY_KEY_PREFIX = "metar-history:";
+const HISTORY_DIR_PATH = path.join(process.cwd(), "metar-history");
+const DEFAULT_RETENTION_DAYS = 7;
+// Stations per Redis pipeline, keeps each request body a reasonable size
+const REDIS_BATCH_SIZE = 250;
+
+// Days of history to keep, from HISTORY_RETENTION_DAYS
+export function getHistoryRetentionDays(): number {
+    const days = Number(process.env.HISTORY_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+function retentionCutoff(now = Date.now()): number {
+    return now - getHistoryRetentionDays() * 24 * 60 * 60 * 1000;
+}
+
+// A METAR and a SPECI can share an observation time, so the report text is part of the identity
+function recordKey(record: ObservationRecord): string {
+    return `${record.obs_time_unix}|${record.raw}`;
+}
+
+function groupByStation(metars: MetarData[]): Map<string, ObservationRecord[]> {
+    const cutoff = retentionCutoff();
+    const stations = new Map<string, Map<string, ObservationRecord>>();
+    for (const metar of metars) {
+        if (!metar.icao || !metar.raw || metar.obs_time_unix < cutoff) continue;
+        const record = toObservationRecord(metar);
+        let records = stations.get(record.icao);
+        if (!records) {
+            records = new Map();
+            stations.set(record.icao, records);
+        }
+        records.set(recordKey(record), record);
+    }
+    return new Map(Array.from(stations, ([icao, records]) => [icao, Array.from(records.values())]));
+}
+
+function stationFilePath(icao: string): string {
+    return path.join(HISTORY_DIR_PATH, `${icao}.json`);
+}
+
+async function readStationFile(icao: string): Promise<ObservationRecord[]> {
+    try {
+        return JSON.parse(await fs.readFile(stationFilePath(icao), "utf-8"));
+    } catch (error: any) {
+        if (error.code !== "ENOENT") console.error(`History Read Error (${icao}):`, error);
+        return [];
+    }
+}
+
+/**
+ * Archive every distinct observation in the batch and drop records older
+ * than the retention period. Records already stored are ignored, so the
+ * same batch can be recorded twice. Returns the number of new records.
+ */
+export async function recordObservations(metars: MetarData[]): Promise<number> {
+    const stations = Array.from(groupByStation(metars));
+    const cutoff = retentionCutoff();
+    const redis = getRedis();
+    let added = 0;
+
+    // Redis: one sorted set per station, scored by observation time
+    if (redis) {
+        const ttlSeconds = Math.ceil(getHistoryRetentionDays() * 24 * 60 * 60);
+        for (let i = 0; i < stations.length; i += REDIS_BATCH_SIZE) {
+            const pipeline = redis.pipeline();
+            for (const [icao, records] of stations.slice(i, i + REDIS_BATCH_SIZE)) {
+                const key = HISTORY_KEY_PREFIX + icao;
+                const [first, ...rest] = records.map((record) => ({ score: record.obs_time_unix, member: record }));
+                pipeline.zadd(key, first, ...rest);
+                pipeline.zremrangebyscore(key, 0, cutoff);
+                pipeline.expire(key, ttlSeconds);
+            }
+            const results = await pipeline.exec<number[]>();
+            // Every third result is a ZADD count
+            for (let j = 0; j < results.length; j += 3) added += results[j] ?? 0;
+        }
+        return added;
+    }
+
+    // Fallback to one file per station
+    await fs.mkdir(HISTORY_DIR_PATH, { recursive: true });
+    for (const [icao, records] of stations) {
+        const existing = await readStationFile(icao);
+        const merged = new Map(existing.map((record) => [recordKey(record), record]));
+        const sizeBefore = merged.size;
+        for (const record of records) {
+            if (!merged.has(recordKey(record))) merged.set(recordKey(record), record);
+        }
+        const kept = Array.from(merged.values())
+            .filter((record) => record.obs_time_unix >= cutoff)
+            .sort((a, b) => a.obs_time_unix - b.obs_time_unix);
+        if (merged.size === sizeBefore && kept.length === existing.length) continue;
+
+        added += merged.size - sizeBefore;
+        try {
+            await fs.writeFile(stationFilePath(icao), JSON.stringify(kept));
+        } catch (error) {
+            console.error(`History Write Error (${icao}):`, error);
+        }
+    }
+    return added;
+}
+
+// Archived observations for a station between two Unix timestamps (ms), oldest first
+export async function getStationHistory(icao: string, from: number, to: number): Promise<ObservationRecord[]> {
+    const redis = getRedis();
+    if (redis) {
+        return redis.zrange<ObservationRecord[]>(HISTORY_KEY_PREFIX + icao, from, to, { byScore: true });
+    }
+
+    const records = await readStationFile(icao);
+    return records.filter((record) => record.obs_time_unix >= from && record.obs_time_unix <= to);
+}
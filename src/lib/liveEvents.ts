@@ -0,0 +1,90 @@
+import { LiveEvent, LiveStatus, MaintenanceData, MetarData } from "@/types";
+import { getRedis } from "@/lib/maintenance";
+
+const EVENTS_KEY = "metar-live-events";
+const COUNTER_KEY = "metar-live-event-id";
+const STATUS_KEY = "metar-live-status";
+// Roughly one hour of top-of-the-hour METARs for the US plus the SPECIs around them
+const MAX_EVENTS = 5000;
+// Events per ZADD, keeps each Redis request well under the body size limit
+const WRITE_BATCH_SIZE = 200;
+
+// Omit distributed over the union so each event type keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+type NewLiveEvent = WithoutId<LiveEvent>;
+
+// In-process fallback; only reaches streams served by the same process as the ingest job
+const localEvents: LiveEvent[] = [];
+let localStatus: LiveStatus = { ingestedAt: null, lastEventId: 0 };
+
+/**
+ * Compare an ingest batch with the station statuses from the previous run.
+ * Every newer observation becomes an event, followed by a category or
+ * maintenance event when the flight category or $ flag changed. Stations
+ * with no previous status (including everything on the first run) are
+ * skipped so a fresh store doesn't push the whole network at once.
+ */
+export function detectLiveEvents(
+    previous: MaintenanceData["stationStatus"],
+    metars: MetarData[]
+): NewLiveEvent[] {
+    const events: NewLiveEvent[] = [];
+    for (const metar of metars) {
+        const status = previous[metar.icao];
+        if (!status || metar.obs_time_unix <= status.lastObsTime) continue;
+
+        const at = metar.obs_time_unix;
+        events.push({ type: "observation", icao: metar.icao, at, metar });
+        if (status.flightCategory && status.flightCategory !== metar.flight_category) {
+            events.push({ type: "category", icao: metar.icao, at, from: status.flightCategory, to: metar.flight_category });
+        }
+        if (status.hasFlag !== metar.has_maintenance_flag) {
+            events.push({ type: "maintenance", icao: metar.icao, at, hasFlag: metar.has_maintenance_flag });
+        }
+    }
+    return events;
+}
+
+// Store events with increasing ids and record the ingest time, even when there are no events
+export async function publishLiveEvents(events: NewLiveEvent[], ingestedAt: number): Promise<void> {
+    const redis = getRedis();
+    if (redis) {
+        const lastId =
+            events.length > 0
+                ? await redis.incrby(COUNTER_KEY, events.length)
+                : Number((await redis.get<number>(COUNTER_KEY)) ?? 0);
+        const firstId = lastId - events.length + 1;
+        const stored = events.map((event, i) => ({ ...event, id: firstId + i }) as LiveEvent);
+
+        for (let i = 0; i < stored.length; i += WRITE_BATCH_SIZE) {
+            const [first, ...rest] = stored.slice(i, i + WRITE_BATCH_SIZE).map((event) => ({ score: event.id, member: event }));
+            await redis.zadd(EVENTS_KEY, first, ...rest);
+        }
+        if (stored.length > 0) await redis.zremrangebyrank(EVENTS_KEY, 0, -(MAX_EVENTS + 1));
+        await redis.set(STATUS_KEY, { ingestedAt, lastEventId: lastId } satisfies LiveStatus);
+        return;
+    }
+
+    for (const event of events) {
+        localEvents.push({ ...event, id: ++localStatus.lastEventId } as LiveEvent);
+    }
+    if (localEvents.length > MAX_EVENTS) localEvents.splice(0, localEvents.length - MAX_EVENTS);
+    localStatus = { ...localStatus, ingestedAt };
+}
+
+export async function getLiveStatus(): Promise<LiveStatus> {
+    const redis = getRedis();
+    if (redis) {
+        return (await redis.get<LiveStatus>(STATUS_KEY)) ?? { ingestedAt: null, lastEventId: 0 };
+    }
+    return localStatus;
+}
+
+// Events after the cursor, oldest first
+export async function readLiveEventsSince(cursor: number, limit = 500): Promise<LiveEvent[]> {
+    const redis = getRedis();
+    if (redis) {
+        return redis.zrange<LiveEvent[]>(EVENTS_KEY, `(${cursor}`, "+inf", { byScore: true, offset: 0, count: limit });
+    }
+    return localEvents.filter((event) => event.id > cursor).slice(0, limit);
+}
@@ -0,0 +1,199 @@
+import { Redis } from "@upstash/redis";
+import { promises as fs } from "fs";
+import path from "path";
+import { MaintenanceData, MetarData } from "@/types";
+
+export interface StationUpdate {
+    icao: string;
+    stationName: string;
+    hasFlag: boolean;
+    obsTime: number;
+    observationTime: string;
+    flightCategory: MetarData["flight_category"];
+}
+
+const MAINTENANCE_KEY = "metar-maintenance-data";
+const LOCK_KEY = "metar-maintenance-ingest-lock";
+const DATA_FILE_PATH = path.join(process.cwd(), "maintenance-data.json");
+const MAX_OUTAGE_EVENTS = 1000;
+
+// Initialize Redis if environment variables are present
+let redis: Redis | null = null;
+try {
+    if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+        redis = Redis.fromEnv();
+    }
+} catch (e) {
+    console.warn("Redis configuration missing or invalid. Falling back to local file storage.");
+}
+
+export function getRedis(): Redis | null {
+    return redis;
+}
+
+// Helper to read data (Redis -> File Fallback)
+export async function getData(): Promise<MaintenanceData> {
+    // Try Redis first
+    if (redis) {
+        try {
+            const data = await redis.get<MaintenanceData>(MAINTENANCE_KEY);
+            return data || { stationStatus: {}, outageLog: [] };
+        } catch (error) {
+            console.error("Redis Read Error:", error);
+            // If Redis is configured but fails, log and return empty rather than mixing in file data
+            return { stationStatus: {}, outageLog: [] };
+        }
+    }
+
+    // Fallback to file
+    try {
+        const fileContent = await fs.readFile(DATA_FILE_PATH, "utf-8");
+        return JSON.parse(fileContent);
+    } catch (error: any) {
+        // If file doesn't exist, return empty structure
+        if (error.code === "ENOENT") {
+            return { stationStatus: {}, outageLog: [] };
+        }
+        console.error("File Read Error:", error);
+        return { stationStatus: {}, outageLog: [] };
+    }
+}
+
+// Helper to write data (Redis -> File Fallback)
+export async function saveData(data: MaintenanceData): Promise<boolean> {
+    // Try Redis first
+    if (redis) {
+        try {
+            await redis.set(MAINTENANCE_KEY, data);
+            return true;
+        } catch (error) {
+            console.error("Redis Write Error:", error);
+            return false;
+        }
+    }
+
+    // Fallback to file
+    try {
+        await fs.writeFile(DATA_FILE_PATH, JSON.stringify(data, null, 2));
+        return true;
+    } catch (error) {
+        console.error("File Write Error:", error);
+        return false;
+    }
+}
+
+export async function clearData(): Promise<void> {
+    if (redis) {
+        await redis.del(MAINTENANCE_KEY);
+        return;
+    }
+    // Delete local file
+    try {
+        await fs.unlink(DATA_FILE_PATH);
+    } catch (e: any) {
+        if (e.code !== "ENOENT") throw e;
+    }
+}
+
+export function toStationUpdate(metar: MetarData): StationUpdate {
+    return {
+        icao: metar.icao,
+        stationName: metar.station_name,
+        hasFlag: metar.has_maintenance_flag,
+        obsTime: metar.obs_time_unix,
+        observationTime: metar.observation_time, // Zulu time string like "171553Z"
+        flightCategory: metar.flight_category,
+    };
+}
+
+/**
+ * Apply a batch of station statuses, opening an outage when the $ flag
+ * appears and closing it when the flag clears. Observations that are not
+ * newer than the last one seen are ignored, so re-running an ingest is safe.
+ */
+export function applyStationUpdates(
+    data: MaintenanceData,
+    updates: StationUpdate[]
+): { outagesStarted: number; outagesEnded: number } {
+    let outagesStarted = 0;
+    let outagesEnded = 0;
+
+    for (const update of updates) {
+        const { icao, stationName, hasFlag, obsTime, observationTime, flightCategory } = update;
+        const currentStatus = data.stationStatus[icao];
+        if (currentStatus && obsTime <= currentStatus.lastObsTime) continue;
+        const wasDown = currentStatus?.hasFlag ?? false;
+
+        if (hasFlag && !wasDown) {
+            // Station just went down - start new outage using METAR observation time
+            data.outageLog.push({
+                icao,
+                stationName,
+                startTime: obsTime,
+                startTimeZulu: observationTime,
+                endTime: null,
+                endTimeZulu: null,
+                duration: null,
+            });
+            outagesStarted++;
+        } else if (!hasFlag && wasDown) {
+            // Station came back up - close the outage using METAR observation time
+            data.outageLog = data.outageLog.map((event) => {
+                if (event.icao === icao && event.endTime === null) {
+                    const duration = Math.round((obsTime - event.startTime) / 60000);
+                    return {
+                        ...event,
+                        endTime: obsTime,
+                        endTimeZulu: observationTime,
+                        duration: duration > 0 ? duration : 0,
+                    };
+                }
+                return event;
+            });
+            outagesEnded++;
+        }
+
+        // Update station status with observation time
+        data.stationStatus[icao] = {
+            hasFlag,
+            lastSeen: Date.now(),
+            lastObsTime: obsTime,
+            lastObsTimeZulu: observationTime,
+            stationName,
+            flightCategory,
+        };
+    }
+
+    // Keep only the most recent outage events to prevent unbounded growth
+    if (data.outageLog.length > MAX_OUTAGE_EVENTS) {
+        data.outageLog = data.outageLog.slice(-MAX_OUTAGE_EVENTS);
+    }
+
+    return { outagesStarted, outagesEnded };
+}
+
+let localIngestRunning = false;
+
+/**
+ * Run fn while holding the ingest lock so overlapping scheduler runs don't
+ * interleave read-modify-write cycles. Returns null if another run holds it.
+ */
+export async function withIngestLock<T>(fn: () => Promise<T>): Promise<T | null> {
+    if (redis) {
+        const acquired = await redis.set(LOCK_KEY, Date.now(), { nx: true, ex: 120 });
+        if (!acquired) return null;
+        try {
+            return await fn();
+        } finally {
+            await redis.del(LOCK_KEY);
+        }
+    }
+
+    if (localIngestRunning) return null;
+    localIngestRunning = true;
+    try {
+        return await fn();
+    } finally {
+        localIngestRunning = false;
+    }
+}
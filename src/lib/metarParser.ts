@@ -0,0 +1,399 @@
+import { MetarTrend, RunwayVisualRange } from "@/types";
+
+export interface ParsedWind {
+    direction: number | null; // null when reported as VRB
+    speed_kt: number;
+    gust_kt: number | null;
+    variable_from: number | null;
+    variable_to: number | null;
+}
+
+export interface ParsedVisibility {
+    value_sm: number;
+    value_m: number | null; // set when the group was reported in meters
+    modifier: "M" | "P" | null; // M = less than, P = greater than
+}
+
+export interface ParsedCloudLayer {
+    cover: string;
+    base_ft: number;
+    type?: "CB" | "TCU";
+}
+
+export interface ParsedMetar {
+    type: "METAR" | "SPECI";
+    station: string | null;
+    day: number | null;
+    hour: number | null;
+    minute: number | null;
+    auto: boolean;
+    corrected: boolean;
+    wind: ParsedWind | null;
+    visibility: ParsedVisibility | null;
+    directional_visibility: { distance_m: number; direction: string } | null;
+    cavok: boolean;
+    rvr: RunwayVisualRange[];
+    weather: string[];
+    clouds: ParsedCloudLayer[];
+    temperature_c: number | null;
+    dewpoint_c: number | null;
+    altimeter_hg: number | null;
+    altimeter_hpa: number | null;
+    altimeter_unit: "inHg" | "hPa" | null;
+    trend: MetarTrend[];
+    remarks: string;
+    has_maintenance_flag: boolean;
+    unparsed: string[];
+}
+
+const KT_PER_MPS = 1.94384;
+const KT_PER_KMH = 0.539957;
+const HPA_PER_INHG = 33.8639;
+const METERS_PER_SM = 1609.344;
+
+const STATION_RE = /^[A-Z][A-Z0-9]{3}$/;
+const TIME_RE = /^(\d{2})(\d{2})(\d{2})Z$/;
+const WIND_RE = /^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/;
+const WIND_VARIATION_RE = /^(\d{3})V(\d{3})$/;
+const VIS_SM_RE = /^([MP])?(\d+(?:\/\d+)?)SM$/;
+const VIS_WHOLE_RE = /^\d+$/;
+const VIS_FRACTION_SM_RE = /^(\d+)\/(\d+)SM$/;
+const VIS_METRIC_RE = /^(\d{4})(NDV)?$/;
+const VIS_DIRECTIONAL_RE = /^(\d{4})(N|NE|E|SE|S|SW|W|NW)$/;
+const TREND_RE = /^(NOSIG|BECMG|TEMPO)$/;
+const TREND_TIME_RE = /^(FM|TL|AT)(\d{4})$/;
+const RVR_RE = /^R(\d{2}[LRC]?)\/([MP])?(\d{4})(?:V([MP])?(\d{4}))?(FT)?\/?([UDN])?$/;
+const WEATHER_RE =
+    /^(-|\+|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/;
+const CLOUD_RE = /^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/{3})(CB|TCU|\/{3})?$/;
+const CLEAR_SKY_RE = /^(SKC|CLR|NSC|NCD)$/;
+const TEMP_RE = /^(M?\d{2}|\/\/)\/(M?\d{2}|\/\/)?$/;
+const ALTIMETER_RE = /^([AQ])(\d{4})$/;
+
+// Split a raw report into tokens, dropping the "=" end-of-message marker
+export function tokenizeMetar(raw: string): string[] {
+    return raw
+        .trim()
+        .replace(/=+$/, "")
+        .split(/\s+/)
+        .filter((t) => t.length > 0);
+}
+
+function parseFraction(value: string): number {
+    const [num, den] = value.split("/").map(Number);
+    return den ? num / den : num;
+}
+
+function parseSignedTemp(value: string | undefined): number | null {
+    if (!value || value === "//") return null;
+    return value.startsWith("M") ? -Number(value.slice(1)) : Number(value);
+}
+
+function toKnots(speed: number, unit: string): number {
+    if (unit === "MPS") return Math.round(speed * KT_PER_MPS);
+    if (unit === "KMH") return Math.round(speed * KT_PER_KMH);
+    return speed;
+}
+
+export function parseWeatherGroup(token: string): string | null {
+    const match = token.match(WEATHER_RE);
+    if (!match) return null;
+    const [, , descriptor, phenomena] = match;
+    // Intensity alone ("-", "+", "VC") is not a weather group
+    if (!descriptor && !phenomena) return null;
+    return token;
+}
+
+export function parseWindGroup(token: string): ParsedWind | null {
+    const match = token.match(WIND_RE);
+    if (!match) return null;
+    const [, dir, speed, gust, unit] = match;
+    return {
+        direction: dir === "VRB" ? null : Number(dir),
+        speed_kt: toKnots(Number(speed), unit),
+        gust_kt: gust ? toKnots(Number(gust), unit) : null,
+        variable_from: null,
+        variable_to: null,
+    };
+}
+
+export function metersToStatuteMiles(meters: number): number {
+    return Math.round((meters / METERS_PER_SM) * 100) / 100;
+}
+
+/**
+ * Parse a prevailing visibility group, either statute miles or ICAO meters.
+ * Returns the number of tokens consumed, since whole and fractional miles
+ * can be split ("1 1/2SM").
+ */
+export function parseVisibilityGroup(
+    token: string,
+    next: string | undefined
+): { visibility: ParsedVisibility; consumed: number } | null {
+    let match: RegExpMatchArray | null;
+    if (VIS_WHOLE_RE.test(token) && token.length <= 2 && (match = (next || "").match(VIS_FRACTION_SM_RE))) {
+        return {
+            visibility: {
+                value_sm: Number(token) + Number(match[1]) / Number(match[2]),
+                value_m: null,
+                modifier: null,
+            },
+            consumed: 2,
+        };
+    }
+    if ((match = token.match(VIS_SM_RE))) {
+        return {
+            visibility: {
+                value_sm: parseFraction(match[2]),
+                value_m: null,
+                modifier: (match[1] || null) as ParsedVisibility["modifier"],
+            },
+            consumed: 1,
+        };
+    }
+    if ((match = token.match(VIS_METRIC_RE))) {
+        const meters = Number(match[1]);
+        // 9999 means 10 km or more, which US conventions report as P6SM
+        if (meters === 9999) {
+            return { visibility: { value_sm: 6, value_m: 10000, modifier: "P" }, consumed: 1 };
+        }
+        return {
+            visibility: { value_sm: metersToStatuteMiles(meters), value_m: meters, modifier: null },
+            consumed: 1,
+        };
+    }
+    return null;
+}
+
+// CAVOK: visibility 10 km or more, no cloud below 5000 ft or CB/TCU, no significant weather
+export const CAVOK_VISIBILITY: ParsedVisibility = { value_sm: 6, value_m: 10000, modifier: "P" };
+
+export function parseCloudGroup(token: string): ParsedCloudLayer | null {
+    if (CLEAR_SKY_RE.test(token)) return { cover: token, base_ft: 0 };
+    const match = token.match(CLOUD_RE);
+    if (!match) return null;
+    const [, cover, base, type] = match;
+    return {
+        cover,
+        base_ft: base === "///" ? 0 : Number(base) * 100,
+        ...(type === "CB" || type === "TCU" ? { type } : {}),
+    };
+}
+
+function parseTrend(tokens: string[]): MetarTrend[] {
+    const trends: MetarTrend[] = [];
+    let current: MetarTrend | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        let match: RegExpMatchArray | null;
+        let visibility: ReturnType<typeof parseVisibilityGroup>;
+        let cloud: ParsedCloudLayer | null;
+
+        if (TREND_RE.test(token)) {
+            current = {
+                type: token as MetarTrend["type"],
+                raw: token,
+                from: null,
+                until: null,
+                at: null,
+                wind_direction: null,
+                wind_speed_kt: null,
+                wind_gust_kt: null,
+                visibility_m: null,
+                cavok: false,
+                no_significant_weather: false,
+                weather: [],
+                clouds: [],
+            };
+            trends.push(current);
+            continue;
+        }
+        if (!current) continue;
+        current.raw += ` ${token}`;
+
+        if ((match = token.match(TREND_TIME_RE))) {
+            const time = `${match[2]}Z`;
+            if (match[1] === "FM") current.from = time;
+            else if (match[1] === "TL") current.until = time;
+            else current.at = time;
+        } else if (parseWindGroup(token)) {
+            const wind = parseWindGroup(token)!;
+            current.wind_direction = wind.direction;
+            current.wind_speed_kt = wind.speed_kt;
+            current.wind_gust_kt = wind.gust_kt;
+        } else if (token === "CAVOK") {
+            current.cavok = true;
+            current.visibility_m = CAVOK_VISIBILITY.value_m;
+        } else if ((visibility = parseVisibilityGroup(token, tokens[i + 1]))) {
+            current.visibility_m =
+                visibility.visibility.value_m ?? Math.round(visibility.visibility.value_sm * METERS_PER_SM);
+            if (visibility.consumed > 1) current.raw += ` ${tokens[i + 1]}`;
+            i += visibility.consumed - 1;
+        } else if (token === "NSW") {
+            current.no_significant_weather = true;
+        } else if ((cloud = parseCloudGroup(token))) {
+            current.clouds.push(cloud);
+        } else if (parseWeatherGroup(token)) {
+            current.weather.push(token);
+        }
+    }
+
+    return trends;
+}
+
+function parseRvr(match: RegExpMatchArray): RunwayVisualRange {
+    const [, runway, modifier, value, maxModifier, maxValue, , trend] = match;
+    return {
+        runway,
+        visibility_ft: Number(value),
+        variable_max_ft: maxValue ? Number(maxValue) : null,
+        modifier: (modifier || maxModifier || null) as RunwayVisualRange["modifier"],
+        trend: (trend || null) as RunwayVisualRange["trend"],
+    };
+}
+
+/**
+ * Parse the body of a raw METAR/SPECI report without relying on any
+ * pre-decoded fields. Everything after RMK is kept as raw remark text.
+ */
+export function parseMetarText(raw: string): ParsedMetar {
+    const result: ParsedMetar = {
+        type: "METAR",
+        station: null,
+        day: null,
+        hour: null,
+        minute: null,
+        auto: false,
+        corrected: false,
+        wind: null,
+        visibility: null,
+        directional_visibility: null,
+        cavok: false,
+        rvr: [],
+        weather: [],
+        clouds: [],
+        temperature_c: null,
+        dewpoint_c: null,
+        altimeter_hg: null,
+        altimeter_hpa: null,
+        altimeter_unit: null,
+        trend: [],
+        remarks: "",
+        has_maintenance_flag: false,
+        unparsed: [],
+    };
+
+    let tokens = tokenizeMetar(raw);
+    if (tokens[tokens.length - 1] === "$") {
+        result.has_maintenance_flag = true;
+        tokens = tokens.slice(0, -1);
+    }
+
+    const rmkIndex = tokens.indexOf("RMK");
+    if (rmkIndex >= 0) {
+        result.remarks = tokens.slice(rmkIndex + 1).join(" ");
+        tokens = tokens.slice(0, rmkIndex);
+    }
+
+    let i = 0;
+    if (tokens[i] === "METAR" || tokens[i] === "SPECI") {
+        result.type = tokens[i] as ParsedMetar["type"];
+        i++;
+    }
+    if (tokens[i] === "COR") {
+        result.corrected = true;
+        i++;
+    }
+    if (tokens[i] && STATION_RE.test(tokens[i])) {
+        result.station = tokens[i];
+        i++;
+    }
+
+    for (; i < tokens.length; i++) {
+        const token = tokens[i];
+        let match: RegExpMatchArray | null;
+        let wind: ParsedWind | null;
+        let visibility: ReturnType<typeof parseVisibilityGroup>;
+        let cloud: ParsedCloudLayer | null;
+
+        if (result.day === null && (match = token.match(TIME_RE))) {
+            result.day = Number(match[1]);
+            result.hour = Number(match[2]);
+            result.minute = Number(match[3]);
+        } else if (token === "AUTO") {
+            result.auto = true;
+        } else if (token === "COR") {
+            result.corrected = true;
+        } else if (!result.wind && (wind = parseWindGroup(token))) {
+            result.wind = wind;
+        } else if (result.wind && (match = token.match(WIND_VARIATION_RE))) {
+            result.wind.variable_from = Number(match[1]);
+            result.wind.variable_to = Number(match[2]);
+        } else if (!result.visibility && (visibility = parseVisibilityGroup(token, tokens[i + 1]))) {
+            result.visibility = visibility.visibility;
+            i += visibility.consumed - 1;
+        } else if (token === "CAVOK") {
+            result.cavok = true;
+            result.visibility = CAVOK_VISIBILITY;
+        } else if (result.visibility && (match = token.match(VIS_DIRECTIONAL_RE))) {
+            result.directional_visibility = { distance_m: Number(match[1]), direction: match[2] };
+        } else if (TREND_RE.test(token)) {
+            // Trend forecast runs to the end of the body
+            result.trend = parseTrend(tokens.slice(i));
+            break;
+        } else if ((match = token.match(RVR_RE))) {
+            result.rvr.push(parseRvr(match));
+        } else if ((cloud = parseCloudGroup(token))) {
+            result.clouds.push(cloud);
+        } else if ((match = token.match(TEMP_RE))) {
+            result.temperature_c = parseSignedTemp(match[1]);
+            result.dewpoint_c = parseSignedTemp(match[2]);
+        } else if ((match = token.match(ALTIMETER_RE))) {
+            const value = Number(match[2]);
+            result.altimeter_unit = match[1] === "A" ? "inHg" : "hPa";
+            if (match[1] === "A") {
+                result.altimeter_hg = value / 100;
+                result.altimeter_hpa = Math.round(result.altimeter_hg * HPA_PER_INHG);
+            } else {
+                result.altimeter_hpa = value;
+                result.altimeter_hg = Math.round((value / HPA_PER_INHG) * 100) / 100;
+            }
+        } else if (parseWeatherGroup(token)) {
+            result.weather.push(token);
+        } else {
+            result.unparsed.push(token);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Resolve a ddhhmm group to a full UTC timestamp. Reports only carry the day
+ * of month, so pick the month that puts the time closest to the reference.
+ * TAFs use hour 24 for midnight at the end of the day, which rolls over here.
+ * Returns null when the day exists in none of the nearby months (e.g. day 00 or 32).
+ */
+export function resolveDayTime(
+    day: number,
+    hour: number,
+    minute: number,
+    reference: Date = new Date()
+): Date | null {
+    const offsetMs = (hour * 60 + minute) * 60000;
+    const candidates = [-1, 0, 1].map(
+        (offset) => new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + offset, day))
+    );
+    // Date.UTC rolls invalid days (e.g. Feb 30) into the next month, skip those
+    const valid = candidates
+        .filter((d) => d.getUTCDate() === day)
+        .map((d) => new Date(d.getTime() + offsetMs));
+    return valid.reduce<Date | null>(
+        (best, d) =>
+            !best || Math.abs(d.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime())
+                ? d
+                : best,
+        null
+    );
+}
@@ -1,4 +1,14 @@
-import { MetarData, TafData, AwcMetarResponse, AwcTafResponse } from "@/types";
+import {
+    MetarData,
+    MetarRemarks,
+    ObservationRecord,
+    SensorStatusIndicator,
+    TafData,
+    AwcMetarResponse,
+    AwcTafResponse,
+} from "@/types";
+import { parseMetarText, resolveDayTime, ParsedMetar } from "@/lib/metarParser";
+import { parseTafText, isOverlayChange, ParsedTafGroup } from "@/lib/tafParser";
 
 export const weatherCodes: Record<string, string> = {
     // Intensity
@@ -51,6 +61,101 @@ export const cloudCoverCodes: Record<string, string> = {
     VV: "Vertical Visibility",
 };
 
+export const sensorStatusCodes: Record<SensorStatusIndicator, string> = {
+    PWINO: "Precipitation identifier not available",
+    FZRANO: "Freezing rain sensor not available",
+    TSNO: "Lightning detector not available",
+    RVRNO: "Runway visual range not available",
+    VISNO: "Secondary visibility sensor not available",
+    CHINO: "Secondary ceiling sensor not available",
+    PNO: "Precipitation amount not available",
+};
+
+export const stationTypeCodes: Record<"AO1" | "AO2", string> = {
+    AO1: "Automated, no precipitation discriminator",
+    AO2: "Automated with precipitation discriminator",
+};
+
+function decodeTenths(sign: string, value: string): number {
+    return (sign === "1" ? -1 : 1) * (Number(value) / 10);
+}
+
+function formatRemarkTime(time: string, obsHour?: string): string {
+    // Peak wind and wind shift times drop the hour when it matches the report
+    return time.length === 2 && obsHour ? `${obsHour}${time}Z` : `${time.padStart(4, "0")}Z`;
+}
+
+// Decode the RMK section of a METAR (text after "RMK", without the $ flag)
+export function decodeRemarks(rmk: string, observationTime?: string): MetarRemarks {
+    const remarks: MetarRemarks = {
+        raw: rmk,
+        station_type: null,
+        sea_level_pressure_hpa: null,
+        precise_temperature_c: null,
+        precise_dewpoint_c: null,
+        peak_wind: null,
+        wind_shift: null,
+        pressure_tendency: null,
+        sensor_status: [],
+    };
+    const obsHour = observationTime?.slice(2, 4);
+    const tokens = rmk.split(/\s+/).filter((t) => t.length > 0);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        let match: RegExpMatchArray | null;
+
+        if (token === "AO1" || token === "AO2") {
+            remarks.station_type = token;
+        } else if ((match = token.match(/^SLP(\d{3})$/))) {
+            const value = Number(match[1]) / 10;
+            remarks.sea_level_pressure_hpa = Math.round((value < 50 ? 1000 + value : 900 + value) * 10) / 10;
+        } else if ((match = token.match(/^T([01])(\d{3})(?:([01])(\d{3}))?$/))) {
+            remarks.precise_temperature_c = decodeTenths(match[1], match[2]);
+            remarks.precise_dewpoint_c = match[3] ? decodeTenths(match[3], match[4]) : null;
+        } else if (token === "PK" && tokens[i + 1] === "WND") {
+            match = (tokens[i + 2] || "").match(/^(\d{3})(\d{2,3})\/(\d{2}|\d{4})$/);
+            if (match) {
+                remarks.peak_wind = {
+                    direction: Number(match[1]),
+                    speed_kt: Number(match[2]),
+                    time: formatRemarkTime(match[3], obsHour),
+                };
+                i += 2;
+            }
+        } else if (token === "WSHFT") {
+            match = (tokens[i + 1] || "").match(/^(\d{2}|\d{4})$/);
+            if (match) {
+                const frontalPassage = tokens[i + 2] === "FROPA";
+                remarks.wind_shift = {
+                    time: formatRemarkTime(match[1], obsHour),
+                    frontal_passage: frontalPassage,
+                };
+                i += frontalPassage ? 2 : 1;
+            }
+        } else if (token === "FROPA" && remarks.wind_shift) {
+            remarks.wind_shift.frontal_passage = true;
+        } else if ((match = token.match(/^5([0-8])(\d{3})$/))) {
+            const character = Number(match[1]);
+            const change = Number(match[2]) / 10;
+            remarks.pressure_tendency = {
+                character,
+                change_hpa: character >= 5 ? -change : change,
+            };
+        } else if (token in sensorStatusCodes) {
+            const next = tokens[i + 1] || "";
+            const hasLocation = /^(RWY\d{2}[LRC]?|[NESW]{1,2})$/.test(next);
+            remarks.sensor_status.push({
+                indicator: token as SensorStatusIndicator,
+                location: hasLocation ? next : null,
+            });
+            if (hasLocation) i++;
+        }
+    }
+
+    return remarks;
+}
+
 export function decodeWeather(wx: string): string {
     let result = "";
     let intensity = "";
@@ -76,6 +181,27 @@ export function decodeWeather(wx: string): string {
     return result || wx;
 }
 
+// Lowest broken/overcast layer or vertical visibility, in feet
+export function getCeilingFt(clouds: Array<{ cover: string; base_ft: number }>): number | null {
+    let ceiling: number | null = null;
+    for (const c of clouds) {
+        if ((c.cover === "BKN" || c.cover === "OVC" || c.cover === "VV") && (ceiling === null || c.base_ft < ceiling)) {
+            ceiling = c.base_ft;
+        }
+    }
+    return ceiling;
+}
+
+const METERS_PER_SM = 1609.344;
+
+// FAA flight category breakpoints: ceiling below / visibility below (statute miles)
+export const FAA_CATEGORY_THRESHOLDS = {
+    LIFR: { ceiling_ft: 500, visibility_sm: 1 },
+    IFR: { ceiling_ft: 1000, visibility_sm: 3 },
+    MVFR: { ceiling_ft: 3000, visibility_sm: 5 }, // MVFR visibility is inclusive: 3 to 5 SM
+} as const;
+
+// Visibility is in statute miles; metric reports must be converted before calling
 export function determineFltCat(
     visib: number | string | undefined,
     clouds: Array<{ cover: string; base: number }> | undefined
@@ -91,14 +217,145 @@ export function determineFltCat(
 
     const vis = typeof visib === "number" ? visib : 10;
 
-    if (ceiling < 500 || vis < 1) return "LIFR";
-    if (ceiling < 1000 || vis < 3) return "IFR";
-    if (ceiling < 3000 || vis <= 5) return "MVFR";
+    const { LIFR, IFR, MVFR } = FAA_CATEGORY_THRESHOLDS;
+    if (ceiling < LIFR.ceiling_ft || vis < LIFR.visibility_sm) return "LIFR";
+    if (ceiling < IFR.ceiling_ft || vis < IFR.visibility_sm) return "IFR";
+    if (ceiling < MVFR.ceiling_ft || vis <= MVFR.visibility_sm) return "MVFR";
     return "VFR";
 }
 
+export interface MetarStationInfo {
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    elevation_m?: number;
+}
+
+function formatVisibility(parsed: ParsedMetar): number | string {
+    if (!parsed.visibility) return 10;
+    const { value_sm, modifier } = parsed.visibility;
+    return modifier === "P" ? `${value_sm}+` : value_sm;
+}
+
+function visibilityToMeters(visibility: number | string): number | null {
+    const sm = typeof visibility === "number" ? visibility : parseFloat(visibility);
+    return isNaN(sm) ? null : Math.round(sm * METERS_PER_SM);
+}
+
+// International groups (metric visibility, CAVOK, Q altimeter, trend) kept in explicit units
+function internationalFields(parsed: ParsedMetar, visibility: number | string) {
+    return {
+        visibility_m: parsed.visibility?.value_m ?? visibilityToMeters(visibility),
+        visibility_unit: (parsed.visibility?.value_m != null ? "m" : "SM") as MetarData["visibility_unit"],
+        directional_visibility: parsed.directional_visibility,
+        cavok: parsed.cavok,
+        altimeter_unit: parsed.altimeter_unit ?? undefined,
+        trend: parsed.trend,
+    };
+}
+
+// Build MetarData purely from the raw report text
+export function parseMetar(
+    raw: string,
+    station: MetarStationInfo = {},
+    reference: Date = new Date()
+): MetarData {
+    const parsed = parseMetarText(raw);
+    const icao = parsed.station || "";
+
+    const observed =
+        parsed.day !== null && parsed.hour !== null && parsed.minute !== null
+            ? resolveDayTime(parsed.day, parsed.hour, parsed.minute, reference) ?? reference
+            : reference;
+    const observationTime =
+        parsed.day !== null
+            ? [parsed.day, parsed.hour, parsed.minute].map((n) => String(n).padStart(2, "0")).join("") + "Z"
+            : "";
+    const visibility = formatVisibility(parsed);
+
+    return {
+        icao,
+        raw: raw.trim(),
+        station_name: station.name || icao,
+        latitude: station.latitude ?? 0,
+        longitude: station.longitude ?? 0,
+        elevation_m: station.elevation_m ?? 0,
+        observed_at: observed.toISOString(),
+        observation_time: observationTime,
+        obs_time_unix: observed.getTime(),
+        wind_direction: parsed.wind ? parsed.wind.direction : null,
+        wind_speed_kt: parsed.wind ? parsed.wind.speed_kt : null,
+        wind_gust_kt: parsed.wind ? parsed.wind.gust_kt : null,
+        wind_variable_from: parsed.wind?.variable_from ?? null,
+        wind_variable_to: parsed.wind?.variable_to ?? null,
+        visibility_sm: visibility,
+        runway_visual_range: parsed.rvr,
+        temperature_c: parsed.temperature_c,
+        dewpoint_c: parsed.dewpoint_c,
+        altimeter_hg: parsed.altimeter_hg,
+        altimeter_hpa: parsed.altimeter_hpa,
+        ...internationalFields(parsed, visibility),
+        flight_category: determineFltCat(
+            visibility,
+            parsed.clouds.map((c) => ({ cover: c.cover, base: c.base_ft }))
+        ),
+        clouds: parsed.clouds,
+        weather: parsed.weather,
+        has_maintenance_flag: parsed.has_maintenance_flag,
+        metar_type: parsed.type,
+        is_auto: parsed.auto,
+        is_corrected: parsed.corrected,
+        remarks: decodeRemarks(parsed.remarks, observationTime),
+    };
+}
+
+export interface MetarDiscrepancy {
+    field: keyof MetarData;
+    awc: unknown;
+    raw: unknown;
+}
+
+// Cross-check AWC's pre-decoded values against our own parse of rawOb
+export function compareMetarWithAwc(awc: AwcMetarResponse): MetarDiscrepancy[] {
+    const fromAwc = transformMetar(awc);
+    const fromRaw = parseMetar(awc.rawOb || "");
+    const fields: Array<keyof MetarData> = [
+        "wind_direction",
+        "wind_speed_kt",
+        "wind_gust_kt",
+        "temperature_c",
+        "dewpoint_c",
+        "altimeter_hg",
+        "flight_category",
+    ];
+
+    const discrepancies: MetarDiscrepancy[] = [];
+    for (const field of fields) {
+        let a = fromAwc[field];
+        let b = fromRaw[field];
+        if (field === "altimeter_hg" && typeof a === "number" && typeof b === "number") {
+            // AWC reports hPa, so allow for the round trip through inHg
+            a = Math.round(a * 100) / 100;
+            b = Math.round(b * 100) / 100;
+        }
+        if ((a ?? null) !== (b ?? null)) {
+            discrepancies.push({ field, awc: a, raw: b });
+        }
+    }
+
+    const awcVis = parseFloat(String(fromAwc.visibility_sm));
+    const rawVis = parseFloat(String(fromRaw.visibility_sm));
+    if (!isNaN(awcVis) && !isNaN(rawVis) && Math.abs(awcVis - rawVis) > 0.01) {
+        discrepancies.push({ field: "visibility_sm", awc: fromAwc.visibility_sm, raw: fromRaw.visibility_sm });
+    }
+
+    return discrepancies;
+}
+
 export function transformMetar(awc: AwcMetarResponse): MetarData {
     const hasMaintenanceFlag = awc.rawOb?.trim().endsWith("$") || false;
+    // AWC's JSON omits RVR, variable wind sectors and cloud types, so take those from the raw text
+    const parsed = parseMetarText(awc.rawOb || "");
 
     // Parse observation time from raw METAR
     const timeMatch = awc.rawOb?.match(/\b(\d{6})Z\b/);
@@ -117,22 +374,153 @@ export function transformMetar(awc: AwcMetarResponse): MetarData {
         wind_direction: typeof awc.wdir === "number" ? awc.wdir : null,
         wind_speed_kt: awc.wspd,
         wind_gust_kt: awc.wgst,
+        wind_variable_from: parsed.wind?.variable_from ?? null,
+        wind_variable_to: parsed.wind?.variable_to ?? null,
         visibility_sm: awc.visib ?? 10,
+        runway_visual_range: parsed.rvr,
         temperature_c: awc.temp,
         dewpoint_c: awc.dewp,
         altimeter_hg: awc.altim ? awc.altim / 33.8639 : null, // Convert hPa to inHg
+        altimeter_hpa: awc.altim ?? null,
+        ...internationalFields(parsed, awc.visib ?? 10),
         flight_category: (awc.fltCat as MetarData["flight_category"]) || "VFR",
-        clouds: (awc.clouds || []).map((c) => ({
-            cover: c.cover,
-            base_ft: c.base || 0,
-        })),
+        clouds: (awc.clouds || []).map((c, i) => {
+            const rawLayer = parsed.clouds[i];
+            return {
+                cover: c.cover,
+                base_ft: c.base || 0,
+                ...(rawLayer?.cover === c.cover && rawLayer.type ? { type: rawLayer.type } : {}),
+            };
+        }),
         weather: awc.wxString ? awc.wxString.split(" ") : [],
         has_maintenance_flag: hasMaintenanceFlag,
         metar_type: awc.metarType || "METAR",
+        is_auto: parsed.auto,
+        is_corrected: parsed.corrected,
+        remarks: decodeRemarks(parsed.remarks, observationTime),
+    };
+}
+
+// Compact form kept in the observation history and plotted in the trend charts
+export function toObservationRecord(metar: MetarData): ObservationRecord {
+    return {
+        icao: metar.icao,
+        obs_time_unix: metar.obs_time_unix,
+        observation_time: metar.observation_time,
+        metar_type: metar.metar_type,
+        raw: metar.raw,
+        flight_category: metar.flight_category,
+        temperature_c: metar.temperature_c,
+        dewpoint_c: metar.dewpoint_c,
+        wind_direction: metar.wind_direction,
+        wind_speed_kt: metar.wind_speed_kt,
+        wind_gust_kt: metar.wind_gust_kt,
+        visibility_sm: metar.visibility_sm,
+        altimeter_hg: metar.altimeter_hg,
+        ceiling_ft: getCeilingFt(metar.clouds),
+        weather: metar.weather,
+        has_maintenance_flag: metar.has_maintenance_flag,
+    };
+}
+
+type TafForecast = TafData["forecasts"][number];
+
+function applyTafGroup(base: TafForecast | null, group: ParsedTafGroup): TafForecast {
+    // FM replaces the forecast outright; BECMG/TEMPO/PROB only restate what changes
+    const inherit = group.change_type !== "FM" && group.change_type !== "BASE" ? base : null;
+    const visibility: number | string = group.visibility
+        ? group.visibility.modifier === "P"
+            ? `${group.visibility.value_sm}+`
+            : group.visibility.value_sm
+        : inherit?.visibility_sm ?? 10;
+    const clouds = group.clouds.length > 0 ? group.clouds : inherit?.clouds ?? [];
+    const weather = group.no_significant_weather ? [] : group.weather.length > 0 ? group.weather : inherit?.weather ?? [];
+
+    return {
+        from: group.from.toISOString(),
+        to: group.to.toISOString(),
+        wind_direction: group.wind ? group.wind.direction : inherit?.wind_direction ?? null,
+        wind_speed_kt: group.wind ? group.wind.speed_kt : inherit?.wind_speed_kt ?? null,
+        wind_gust_kt: group.wind ? group.wind.gust_kt : inherit?.wind_gust_kt ?? null,
+        visibility_sm: visibility,
+        flight_category: determineFltCat(
+            visibility,
+            clouds.map((c) => ({ cover: c.cover, base: c.base_ft }))
+        ),
+        clouds,
+        weather,
+        change_type: group.change_type === "BASE" ? undefined : group.change_type,
+        probability: group.probability,
+        no_significant_weather: group.no_significant_weather,
+        wind_shear: group.wind_shear,
+    };
+}
+
+/**
+ * Build TafData from raw TAF text. BECMG groups are merged into the
+ * prevailing conditions from then on; TEMPO/PROB groups are overlays and
+ * carry the prevailing values only for the elements they don't restate.
+ */
+export function parseTaf(raw: string, stationName?: string, reference: Date = new Date()): TafData {
+    const parsed = parseTafText(raw, reference);
+    const icao = parsed.station || "";
+
+    const forecasts: TafForecast[] = [];
+    let prevailing: TafForecast | null = null;
+    for (const group of parsed.groups) {
+        const forecast = applyTafGroup(prevailing, group);
+        forecasts.push(forecast);
+        if (!isOverlayChange(forecast.change_type)) {
+            prevailing = forecast;
+        }
+    }
+
+    return {
+        icao,
+        raw: raw.trim(),
+        station_name: stationName || icao,
+        issue_time: (parsed.issued ?? reference).toISOString(),
+        valid_from: (parsed.valid_from ?? reference).toISOString(),
+        valid_to: (parsed.valid_to ?? reference).toISOString(),
+        is_amended: parsed.amended,
+        is_corrected: parsed.corrected,
+        forecasts,
     };
 }
 
+// Latest non-overlay forecast period in effect at the given time
+export function getPrevailingForecast(taf: TafData, at: Date): TafForecast | null {
+    const t = at.getTime();
+    let current: TafForecast | null = null;
+    for (const f of taf.forecasts) {
+        if (isOverlayChange(f.change_type)) continue;
+        if (new Date(f.from).getTime() <= t) current = f;
+    }
+    return current;
+}
+
+export function getActiveOverlays(taf: TafData, at: Date): TafForecast[] {
+    const t = at.getTime();
+    return taf.forecasts.filter(
+        (f) => isOverlayChange(f.change_type) && new Date(f.from).getTime() <= t && t < new Date(f.to).getTime()
+    );
+}
+
 export function transformTaf(awc: AwcTafResponse): TafData {
+    // Prefer our own parse of the raw text, which keeps the groups AWC flattens
+    if (awc.rawTAF) {
+        const parsed = parseTaf(awc.rawTAF, awc.name, new Date(awc.validTimeFrom * 1000));
+        if (parsed.forecasts.length > 0) {
+            return {
+                ...parsed,
+                icao: awc.icaoId,
+                issue_time: awc.issueTime,
+                valid_from: new Date(awc.validTimeFrom * 1000).toISOString(),
+                valid_to: new Date(awc.validTimeTo * 1000).toISOString(),
+            };
+        }
+    }
+
     return {
         icao: awc.icaoId,
         raw: awc.rawTAF || "",
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { MinimumsProfile } from "@/types";
+import { parseMetar } from "@/lib/metarUtils";
+import { defaultMinimumsProfiles, evaluateMinimums } from "@/lib/minimums";
+
+function profile(id: string): MinimumsProfile {
+    const found = defaultMinimumsProfiles.find((p) => p.id === id);
+    if (!found) throw new Error(`No profile ${id}`);
+    return found;
+}
+
+// Student Solo: ceiling 3000 ft, visibility 5 SM, wind 15 kt, gust 20 kt, crosswind 8 kt
+describe("evaluateMinimums", () => {
+    it.each([
+        { raw: "KXYZ 171553Z 08010KT 10SM CLR 10/05 A2992", status: "GO", reasons: [] },
+        { raw: "KXYZ 171553Z 08010KT 10SM BKN040 10/05 A2992", status: "GO", reasons: [] },
+        {
+            raw: "KXYZ 171553Z 08010KT 10SM BKN032 10/05 A2992",
+            status: "MARGINAL",
+            reasons: ["Ceiling 3200 near limit 3000"],
+        },
+        {
+            raw: "KXYZ 171553Z 08010KT 10SM BKN025 10/05 A2992",
+            status: "NO-GO",
+            reasons: ["Ceiling 2500 (limit 3000)"],
+        },
+        {
+            raw: "KXYZ 171553Z 08010KT 5SM BR SCT050 10/09 A2992",
+            status: "MARGINAL",
+            reasons: ["Visibility 5 near limit 5"],
+        },
+        {
+            raw: "KXYZ 171553Z 08010KT 3SM BR SCT050 10/09 A2992",
+            status: "NO-GO",
+            reasons: ["Visibility 3 (limit 5)"],
+        },
+        {
+            raw: "KXYZ 171553Z 08012KT 10SM CLR 10/05 A2992",
+            status: "MARGINAL",
+            reasons: ["Wind 12 near limit 15"],
+        },
+        {
+            raw: "KXYZ 171553Z 08018G24KT 10SM CLR 10/05 A2992",
+            status: "NO-GO",
+            reasons: ["Wind 18 (limit 15)", "Gust 24 (limit 20)"],
+        },
+        {
+            // NO-GO reasons come first, then the marginal ones
+            raw: "KXYZ 171553Z 08012KT 3SM BR SCT050 10/09 A2992",
+            status: "NO-GO",
+            reasons: ["Visibility 3 (limit 5)", "Wind 12 near limit 15"],
+        },
+        // KJFK runways 04/22 and 13/31: wind down runway 04 has no crosswind
+        { raw: "KJFK 171553Z 03110KT 10SM CLR 10/05 A2992", status: "GO", reasons: [] },
+        {
+            // 45° off every runway
+            raw: "KJFK 171553Z 07612KT 10SM CLR 10/05 A2992",
+            status: "MARGINAL",
+            reasons: ["Wind 12 near limit 15", "Crosswind 8 near limit 8"],
+        },
+        {
+            raw: "KJFK 171553Z 07616KT 10SM CLR 10/05 A2992",
+            status: "NO-GO",
+            reasons: ["Wind 16 (limit 15)", "Crosswind 11 (limit 8)"],
+        },
+    ])("$raw -> $status", ({ raw, status, reasons }) => {
+        expect(evaluateMinimums(parseMetar(raw), profile("student-solo"))).toEqual({ status, reasons });
+    });
+
+    it.each([
+        { raw: "KXYZ 171553Z 08010KT 3SM BR OVC008 10/09 A2992", status: "GO", reasons: [] },
+        {
+            raw: "KXYZ 171553Z 08010KT 1SM BR OVC002 10/09 A2992",
+            status: "MARGINAL",
+            reasons: ["Ceiling 200 near limit 200", "Visibility 1 near limit 0.5"],
+        },
+        {
+            raw: "KXYZ 171553Z 08010KT 1/4SM FG VV001 10/10 A2992",
+            status: "NO-GO",
+            reasons: ["Ceiling 100 (limit 200)", "Visibility 0.25 (limit 0.5)"],
+        },
+    ])("company IFR: $raw -> $status", ({ raw, status, reasons }) => {
+        expect(evaluateMinimums(parseMetar(raw), profile("company-ifr"))).toEqual({ status, reasons });
+    });
+});
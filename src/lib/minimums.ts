@@ -0,0 +1,90 @@
+import { GoNoGoStatus, MetarData, MinimumsProfile } from "@/types";
+import { getCeilingFt } from "@/lib/metarUtils";
+import { getRunways, computeRunwayWinds } from "@/lib/runways";
+
+export interface MinimumsEvaluation {
+    status: GoNoGoStatus;
+    reasons: string[];
+}
+
+// How close to a limit counts as MARGINAL rather than GO
+const MARGINAL_CEILING_FT = 500;
+const MARGINAL_VISIBILITY_SM = 1;
+const MARGINAL_WIND_KT = 5;
+
+export const defaultMinimumsProfiles: MinimumsProfile[] = [
+    {
+        id: "student-solo",
+        name: "Student Solo",
+        ceiling_ft: 3000,
+        visibility_sm: 5,
+        max_wind_kt: 15,
+        max_gust_kt: 20,
+        max_crosswind_kt: 8,
+    },
+    {
+        id: "night-vfr",
+        name: "Night VFR",
+        ceiling_ft: 3000,
+        visibility_sm: 5,
+        max_wind_kt: 20,
+        max_gust_kt: 25,
+        max_crosswind_kt: 12,
+    },
+    {
+        id: "company-ifr",
+        name: "Company IFR",
+        ceiling_ft: 200,
+        visibility_sm: 0.5,
+        max_wind_kt: 35,
+        max_gust_kt: 45,
+        max_crosswind_kt: 25,
+    },
+];
+
+function visibilitySm(visibility: number | string): number {
+    if (typeof visibility === "number") return visibility;
+    const parsed = parseFloat(visibility);
+    return isNaN(parsed) ? 10 : parsed;
+}
+
+// Crosswind on the best-aligned runway, or null if we have no runway data
+function lowestCrosswindKt(metar: MetarData): number | null {
+    const winds = computeRunwayWinds(getRunways(metar.icao), metar);
+    let lowest: number | null = null;
+    for (const w of winds) {
+        const cross = w.gust_crosswind_kt ?? w.crosswind_kt;
+        if (cross === null) continue;
+        if (lowest === null || Math.abs(cross) < lowest) lowest = Math.abs(cross);
+    }
+    return lowest;
+}
+
+export function evaluateMinimums(metar: MetarData, profile: MinimumsProfile): MinimumsEvaluation {
+    const noGo: string[] = [];
+    const marginal: string[] = [];
+
+    const check = (label: string, value: number | null, limit: number, buffer: number, higherIsBetter: boolean) => {
+        if (value === null) return;
+        const beyond = higherIsBetter ? value < limit : value > limit;
+        const near = higherIsBetter ? value < limit + buffer : value > limit - buffer;
+        if (beyond) noGo.push(`${label} ${value} (limit ${limit})`);
+        else if (near) marginal.push(`${label} ${value} near limit ${limit}`);
+    };
+
+    check("Ceiling", getCeilingFt(metar.clouds), profile.ceiling_ft, MARGINAL_CEILING_FT, true);
+    check("Visibility", visibilitySm(metar.visibility_sm), profile.visibility_sm, MARGINAL_VISIBILITY_SM, true);
+    check("Wind", metar.wind_speed_kt, profile.max_wind_kt, MARGINAL_WIND_KT, false);
+    check("Gust", metar.wind_gust_kt, profile.max_gust_kt, MARGINAL_WIND_KT, false);
+    check("Crosswind", lowestCrosswindKt(metar), profile.max_crosswind_kt, MARGINAL_WIND_KT, false);
+
+    if (noGo.length > 0) return { status: "NO-GO", reasons: [...noGo, ...marginal] };
+    if (marginal.length > 0) return { status: "MARGINAL", reasons: marginal };
+    return { status: "GO", reasons: [] };
+}
+
+export const goNoGoStyles: Record<GoNoGoStatus, { badge: string; color: string }> = {
+    GO: { badge: "bg-green-500/20 text-green-400 border-green-500/50", color: "#22c55e" },
+    MARGINAL: { badge: "bg-yellow-500/20 text-yellow-400 border-yellow-500/50", color: "#eab308" },
+    "NO-GO": { badge: "bg-red-500/20 text-red-400 border-red-500/50", color: "#ef4444" },
+};
@@ -0,0 +1,278 @@
+import { JsonSchema, JsonSchemaComponents, s, Schema } from "@/lib/schema";
+import {
+    advisoryListSchema,
+    apiErrorSchema,
+    awcMetarListSchema,
+    awcTafListSchema,
+    maintenanceDataSchema,
+    metarListSchema,
+    metarSnapshotDeltaSchema,
+    metarSnapshotSchema,
+    pilotReportListSchema,
+    stationHistorySchema,
+} from "@/lib/apiSchemas";
+import {
+    CATEGORY_FILTERS,
+    MAX_FILTER_STATION_IDS,
+    MAX_HOURS,
+    MAX_STATION_IDS,
+    METAR_FORMATS,
+    METAR_TYPES,
+    STATUS_FILTERS,
+} from "@/lib/validation";
+import { coverageRegions } from "@/lib/coverage";
+import { EXPORT_FORMATS } from "@/lib/export";
+
+export const API_VERSION = "1.0.0";
+
+interface Parameter {
+    name: string;
+    in: "query" | "path" | "header";
+    description: string;
+    required?: boolean;
+    schema: Schema<unknown>;
+}
+
+interface Response {
+    description: string;
+    schema?: Schema<unknown>;
+    files?: string[]; // media types of a file download, instead of a JSON schema
+    headers?: Record<string, string>; // header name -> description
+}
+
+interface Operation {
+    summary: string;
+    description?: string;
+    parameters: Parameter[];
+    responses: Record<number, Response>;
+}
+
+const errorResponse = (description: string): Response => ({ description, schema: apiErrorSchema });
+
+const bboxParameter: Parameter = {
+    name: "bbox",
+    in: "query",
+    description: "Bounding box as minLat,minLon,maxLat,maxLon, spanning at most 48 tiles of 15°",
+    schema: s.string({ pattern: /^-?[\d.]+,-?[\d.]+,-?[\d.]+,-?[\d.]+$/ }),
+};
+
+const coverageParameters: Parameter[] = [
+    {
+        name: "region",
+        in: "query",
+        description: `Comma-separated coverage region ids from regions.json (${coverageRegions.map((r) => r.id).join(", ")})`,
+        schema: s.string(),
+    },
+    { name: "country", in: "query", description: "Comma-separated ISO country codes", schema: s.string() },
+    bboxParameter,
+];
+
+// Paths are relative to the /api/v1 server
+const operations: Record<string, Operation> = {
+    "/metar": {
+        summary: "METARs or TAFs for a list of stations; SIGMETs, AIRMETs, G-AIRMETs or PIREPs for an area",
+        description:
+            "Proxies the configured weather provider. METARs and TAFs are returned as the provider's records; " +
+            "SIGMETs, AIRMETs, G-AIRMETs and PIREPs are normalized into Advisory and PilotReport records. " +
+            "Rate limited per client; the X-RateLimit-* headers report the current window.",
+        parameters: [
+            {
+                name: "ids",
+                in: "query",
+                description: `Comma-separated ICAO or FAA identifiers, at most ${MAX_STATION_IDS}; required for METARs and TAFs`,
+                schema: s.string(),
+            },
+            {
+                ...bboxParameter,
+                description: "Area as minLat,minLon,maxLat,maxLon; required for PIREPs, optional for advisories",
+            },
+            {
+                name: "hours",
+                in: "query",
+                description: "Hours of observations (METARs) or maximum report age (PIREPs)",
+                schema: s.number({ integer: true, minimum: 1, maximum: MAX_HOURS }),
+            },
+            { name: "format", in: "query", description: "Response format, default json", schema: s.enumOf(METAR_FORMATS) },
+            { name: "type", in: "query", description: "Report type, default metar", schema: s.enumOf(METAR_TYPES) },
+        ],
+        responses: {
+            200: {
+                description: "Records (format=json) or the raw reports as text (format=raw)",
+                schema: s.union(awcMetarListSchema, awcTafListSchema, advisoryListSchema, pilotReportListSchema),
+                headers: {
+                    "X-RateLimit-Limit": "Requests allowed per window",
+                    "X-RateLimit-Remaining": "Requests left in the current window",
+                    "X-RateLimit-Reset": "When the window resets, Unix seconds",
+                },
+            },
+            400: errorResponse("A query parameter is missing or invalid; `field` names it"),
+            429: { ...errorResponse("Rate limit exceeded"), headers: { "Retry-After": "Seconds until the window resets" } },
+            501: errorResponse("The configured provider does not serve this report type"),
+            502: errorResponse("The weather provider failed"),
+            500: errorResponse("The request failed"),
+        },
+    },
+    "/metar/all": {
+        summary: "Latest observation for every station in a coverage area",
+        description:
+            "Defaults to the server's configured coverage. Regions that fail upstream are served from their " +
+            "last good copy and reported in `meta`. Send the previous `meta.version` as If-None-Match for a 304, " +
+            "or as `since` for only the stations that changed.",
+        parameters: [
+            ...coverageParameters,
+            { name: "since", in: "query", description: "A previous meta.version; returns a delta", schema: s.string() },
+            { name: "If-None-Match", in: "header", description: "A previous ETag", schema: s.string() },
+        ],
+        responses: {
+            200: {
+                description: "The full snapshot, or a delta when `since` is a known version",
+                schema: s.union(metarSnapshotSchema, metarSnapshotDeltaSchema),
+                headers: { ETag: "The snapshot version" },
+            },
+            304: { description: "Unchanged since the If-None-Match version" },
+            400: errorResponse("Invalid coverage parameters"),
+            429: { ...errorResponse("Rate limit exceeded"), headers: { "Retry-After": "Seconds until the window resets" } },
+            500: errorResponse("The snapshot could not be built"),
+        },
+    },
+    "/metar/bbox": {
+        summary: "Latest observation for every station inside a bounding box",
+        parameters: [{ ...bboxParameter, required: true }],
+        responses: {
+            200: { description: "Stations inside the box", schema: metarListSchema },
+            400: errorResponse("Missing, invalid or too large bbox (over 48 tiles of 15°)"),
+            429: { ...errorResponse("Rate limit exceeded"), headers: { "Retry-After": "Seconds until the window resets" } },
+            500: errorResponse("The provider request failed"),
+        },
+    },
+    "/export": {
+        summary: "Coverage snapshot as a CSV, GeoJSON or KML file",
+        description:
+            "One row, feature or placemark per station with the flight category, $ maintenance flag and decoded " +
+            "weather. Takes the coverage parameters of /metar/all and the same filters as the app.",
+        parameters: [
+            {
+                name: "format",
+                in: "query",
+                required: true,
+                description: "File format",
+                schema: s.enumOf(EXPORT_FORMATS),
+            },
+            ...coverageParameters,
+            { name: "q", in: "query", description: "Search text and query terms, e.g. `cat:IFR,LIFR state:TX gust>25 flagged`", schema: s.string() },
+            { name: "status", in: "query", description: "$ maintenance flag, default all", schema: s.enumOf(STATUS_FILTERS) },
+            { name: "category", in: "query", description: "Flight category, default all", schema: s.enumOf(CATEGORY_FILTERS) },
+            {
+                name: "ids",
+                in: "query",
+                description: `Only these stations (comma-separated, at most ${MAX_FILTER_STATION_IDS})`,
+                schema: s.string(),
+            },
+        ],
+        responses: {
+            200: {
+                description: "The file, as an attachment",
+                files: ["text/csv", "application/geo+json", "application/vnd.google-earth.kml+xml"],
+                headers: {
+                    "X-Station-Count": "Stations in the file",
+                    "X-Snapshot-Stale": "true when some regions are stale or missing",
+                },
+            },
+            400: errorResponse("Invalid format, coverage or filter"),
+            429: { ...errorResponse("Rate limit exceeded"), headers: { "Retry-After": "Seconds until the window resets" } },
+            500: errorResponse("The snapshot could not be built"),
+        },
+    },
+    "/maintenance": {
+        summary: "Station $ maintenance flag status and outage log",
+        description: "Written by the ingest job; each outage runs from the first flagged report to the first clean one.",
+        parameters: [],
+        responses: {
+            200: { description: "Current maintenance data", schema: maintenanceDataSchema },
+        },
+    },
+    "/history/{icao}": {
+        summary: "Archived observations for one station",
+        parameters: [
+            { name: "icao", in: "path", required: true, description: "Station identifier", schema: s.string() },
+            {
+                name: "from",
+                in: "query",
+                description: "Start time, Unix milliseconds or ISO 8601; default 24 hours before `to`",
+                schema: s.string(),
+            },
+            { name: "to", in: "query", description: "End time, Unix milliseconds or ISO 8601; default now", schema: s.string() },
+        ],
+        responses: {
+            200: { description: "Observations in the window, oldest first", schema: stationHistorySchema },
+            400: errorResponse("Invalid station identifier or time range"),
+            500: errorResponse("The archive could not be read"),
+        },
+    },
+};
+
+function renderResponse(response: Response, components: JsonSchemaComponents): JsonSchema {
+    return {
+        description: response.description,
+        ...(response.headers
+            ? {
+                  headers: Object.fromEntries(
+                      Object.entries(response.headers).map(([name, description]) => [
+                          name,
+                          { description, schema: { type: "string" } },
+                      ])
+                  ),
+              }
+            : {}),
+        ...(response.schema
+            ? { content: { "application/json": { schema: response.schema.toJsonSchema(components) } } }
+            : {}),
+        ...(response.files
+            ? { content: Object.fromEntries(response.files.map((type) => [type, { schema: { type: "string" } }])) }
+            : {}),
+    };
+}
+
+/**
+ * OpenAPI 3.1 description of the /api/v1 routes, rendered from the same
+ * schemas the routes validate their responses with.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+    const components: JsonSchemaComponents = {};
+    const paths = Object.fromEntries(
+        Object.entries(operations).map(([path, operation]) => [
+            path,
+            {
+                get: {
+                    summary: operation.summary,
+                    ...(operation.description ? { description: operation.description } : {}),
+                    parameters: operation.parameters.map((parameter) => ({
+                        name: parameter.name,
+                        in: parameter.in,
+                        description: parameter.description,
+                        required: parameter.in === "path" || !!parameter.required,
+                        schema: parameter.schema.toJsonSchema(components),
+                    })),
+                    responses: Object.fromEntries(
+                        Object.entries(operation.responses).map(([status, response]) => [
+                            status,
+                            renderResponse(response, components),
+                        ])
+                    ),
+                },
+            },
+        ])
+    );
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "METAR Command Center API",
+            version: API_VERSION,
+            description: "Aviation weather observations, coverage snapshots and ASOS maintenance tracking.",
+        },
+        servers: [{ url: "/api/v1" }],
+        paths,
+        components: { schemas: components },
+    };
+}
@@ -0,0 +1,92 @@
+import { AwcAirSigmetResponse, AwcGairmetResponse, AwcMetarResponse, AwcPirepResponse, AwcTafResponse, BoundingBox } from "@/types";
+import {
+    StationQuery,
+    USER_AGENT,
+    WeatherProvider,
+    WeatherProviderError,
+    countryFromStationName,
+    partitionByRegion,
+} from "@/lib/providers/types";
+import { COUNTRY_EXTENTS, formatBoundingBox } from "@/lib/coverage";
+
+const AWC_BASE = "https://aviationweather.gov/api/data";
+
+async function fetchAwc<T>(path: string): Promise<T[]> {
+    const response = await fetch(`${AWC_BASE}/${path}`, {
+        headers: {
+            "User-Agent": USER_AGENT,
+        },
+        next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+
+    if (!response.ok) {
+        throw new WeatherProviderError(`Aviation Weather API returned ${response.status}`, response.status);
+    }
+
+    // AWC answers an empty body when nothing matches
+    const text = await response.text();
+    if (!text.trim()) return [];
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : [];
+}
+
+// aviationweather.gov JSON API
+export const awcProvider: WeatherProvider = {
+    name: "awc",
+
+    async getMetars(query: StationQuery, hours: number): Promise<AwcMetarResponse[]> {
+        if (query.kind === "stations") {
+            return fetchAwc<AwcMetarResponse>(`metar?ids=${query.ids.join(",")}&format=json&hours=${hours}`);
+        }
+        if (query.kind === "bbox") {
+            return fetchAwc<AwcMetarResponse>(`metar?bbox=${formatBoundingBox(query.bbox)}&format=json&hours=${hours}`);
+        }
+        if (query.kind === "countries") {
+            // AWC has no country filter, so fetch each country's extent and keep its own stations
+            const responses = await Promise.all(
+                query.countries.map(async (country) => {
+                    const extents = COUNTRY_EXTENTS[country] ?? [];
+                    if (extents.length === 0) console.warn(`No extent configured for country ${country}`);
+                    const results = await Promise.all(
+                        extents.map((bbox) =>
+                            fetchAwc<AwcMetarResponse>(`metar?bbox=${formatBoundingBox(bbox)}&format=json&hours=${hours}`)
+                        )
+                    );
+                    return results.flat().filter((m) => countryFromStationName(m.name) === country);
+                })
+            );
+            return responses.flat();
+        }
+
+        // One request per state, in parallel batches of 10. A failed state fails the
+        // query; callers that want per-state results partition the query first.
+        const results: AwcMetarResponse[] = [];
+        const batchSize = 10;
+        for (let i = 0; i < query.states.length; i += batchSize) {
+            const batch = query.states.slice(i, i + batchSize);
+            const responses = await Promise.all(
+                batch.map((state) => fetchAwc<AwcMetarResponse>(`metar?ids=@${state}&format=json&hours=${hours}`))
+            );
+            results.push(...responses.flat());
+        }
+        return results;
+    },
+
+    partition: partitionByRegion,
+
+    async getTafs(ids: string[]): Promise<AwcTafResponse[]> {
+        return fetchAwc<AwcTafResponse>(`taf?ids=${ids.join(",")}&format=json`);
+    },
+
+    async getAirSigmets(): Promise<AwcAirSigmetResponse[]> {
+        return fetchAwc<AwcAirSigmetResponse>("airsigmet?format=json");
+    },
+
+    async getGairmets(): Promise<AwcGairmetResponse[]> {
+        return fetchAwc<AwcGairmetResponse>("gairmet?format=json");
+    },
+
+    async getPireps(bbox: BoundingBox, hours: number): Promise<AwcPirepResponse[]> {
+        return fetchAwc<AwcPirepResponse>(`pirep?bbox=${formatBoundingBox(bbox)}&format=json&age=${hours}`);
+    },
+};
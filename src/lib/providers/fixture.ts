@@ -0,0 +1,71 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AwcAirSigmetResponse, AwcGairmetResponse, AwcMetarResponse, AwcPirepResponse, AwcTafResponse, BoundingBox } from "@/types";
+import {
+    StationQuery,
+    WeatherProvider,
+    WeatherProviderError,
+    countryFromStationName,
+    stateFromStationName,
+    partitionByRegion,
+} from "@/lib/providers/types";
+import { inBoundingBox } from "@/lib/coverage";
+
+const FIXTURE_DIR = process.env.WEATHER_FIXTURE_DIR || path.join(process.cwd(), "fixtures");
+
+async function readFixture<T>(file: string): Promise<T[]> {
+    try {
+        const data = JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, file), "utf-8"));
+        return Array.isArray(data) ? data : [];
+    } catch (error) {
+        console.error(`Failed to read fixture ${file}:`, error);
+        throw new WeatherProviderError(`Fixture ${file} is missing or invalid`, 500);
+    }
+}
+
+/**
+ * Recorded AWC JSON payloads read from disk, for development and demos
+ * without network access. Observation times are kept as recorded, so the
+ * `hours` window is not applied.
+ */
+export const fixtureProvider: WeatherProvider = {
+    name: "fixture",
+
+    async getMetars(query: StationQuery): Promise<AwcMetarResponse[]> {
+        const metars = await readFixture<AwcMetarResponse>("metar.json");
+        if (query.kind === "stations") {
+            const ids = new Set(query.ids.map((id) => id.toUpperCase()));
+            return metars.filter((m) => ids.has(m.icaoId));
+        }
+        if (query.kind === "bbox") {
+            return metars.filter((m) => inBoundingBox(m.lat, m.lon, query.bbox));
+        }
+        if (query.kind === "countries") {
+            const countries = new Set(query.countries.map((c) => c.toUpperCase()));
+            return metars.filter((m) => countries.has(countryFromStationName(m.name) ?? ""));
+        }
+        const states = new Set(query.states.map((s) => s.toLowerCase()));
+        return metars.filter((m) => states.has(stateFromStationName(m.name) ?? ""));
+    },
+
+    async getTafs(ids: string[]): Promise<AwcTafResponse[]> {
+        const tafs = await readFixture<AwcTafResponse>("taf.json");
+        const wanted = new Set(ids.map((id) => id.toUpperCase()));
+        return tafs.filter((t) => wanted.has(t.icaoId));
+    },
+
+    async getAirSigmets(): Promise<AwcAirSigmetResponse[]> {
+        return readFixture<AwcAirSigmetResponse>("airsigmet.json");
+    },
+
+    async getGairmets(): Promise<AwcGairmetResponse[]> {
+        return readFixture<AwcGairmetResponse>("gairmet.json");
+    },
+
+    async getPireps(bbox: BoundingBox): Promise<AwcPirepResponse[]> {
+        const pireps = await readFixture<AwcPirepResponse>("pirep.json");
+        return pireps.filter((p) => inBoundingBox(p.lat, p.lon, bbox));
+    },
+
+    partition: partitionByRegion,
+};
@@ -0,0 +1,24 @@
+import { awcProvider } from "@/lib/providers/awc";
+import { noaaProvider } from "@/lib/providers/noaa";
+import { fixtureProvider } from "@/lib/providers/fixture";
+import { WeatherProvider } from "@/lib/providers/types";
+
+export type { StationQuery, WeatherProvider } from "@/lib/providers/types";
+export { WeatherProviderError } from "@/lib/providers/types";
+
+const providers: Record<string, WeatherProvider> = {
+    awc: awcProvider,
+    noaa: noaaProvider,
+    fixture: fixtureProvider,
+};
+
+// Selected with WEATHER_PROVIDER (awc | noaa | fixture); defaults to the AWC JSON API
+export function getWeatherProvider(): WeatherProvider {
+    const name = (process.env.WEATHER_PROVIDER || "awc").toLowerCase();
+    const provider = providers[name];
+    if (!provider) {
+        console.warn(`Unknown WEATHER_PROVIDER "${name}", falling back to awc`);
+        return awcProvider;
+    }
+    return provider;
+}
@@ -0,0 +1,219 @@
+import { AwcMetarResponse, AwcTafResponse } from "@/types";
+import { parseMetar } from "@/lib/metarUtils";
+import { parseTafText } from "@/lib/tafParser";
+import { StationQuery, USER_AGENT, WeatherProvider, WeatherProviderError } from "@/lib/providers/types";
+import { COUNTRY_ICAO_PREFIXES, inBoundingBox } from "@/lib/coverage";
+import { metersToFeet } from "@/lib/units";
+
+const NOAA_BASE = "https://tgftp.nws.noaa.gov/data";
+const HPA_PER_INHG = 33.8639;
+
+// Prefixes for the 50 states and DC (contiguous US, Alaska, Hawaii)
+const US_STATE_PREFIXES = ["K", "PA", "PH"];
+
+async function fetchText(path: string, revalidate = 300): Promise<string | null> {
+    const response = await fetch(`${NOAA_BASE}/${path}`, {
+        headers: {
+            "User-Agent": USER_AGENT,
+        },
+        next: { revalidate },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new WeatherProviderError(`NOAA server returned ${response.status}`, response.status);
+    }
+    return response.text();
+}
+
+interface NoaaStation {
+    name: string;
+    lat: number;
+    lon: number;
+    elevation_ft: number;
+}
+
+// The station list changes rarely; reload it once a day
+const STATION_LIST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+let stationList: { loadedAt: number; stations: Promise<Map<string, NoaaStation>> } | null = null;
+
+// "33-38N" or "084-26-12W" to decimal degrees
+function parseCoordinate(text: string): number | null {
+    const match = text.trim().match(/^(\d{1,3})-(\d{1,2})(?:-(\d{1,2}))?([NSEW])$/);
+    if (!match) return null;
+    const [, degrees, minutes, seconds, hemisphere] = match;
+    const value = Number(degrees) + Number(minutes) / 60 + Number(seconds ?? 0) / 3600;
+    return hemisphere === "S" || hemisphere === "W" ? -value : value;
+}
+
+/**
+ * The NWS station list (nsd_cccc.txt), one semicolon-separated line per station:
+ * ICAO;block;number;name;state;country;WMO region;lat;lon;upper-air lat;upper-air lon;elevation (m);...
+ * Stations without usable coordinates are left out.
+ */
+function parseStationList(text: string): Map<string, NoaaStation> {
+    const stations = new Map<string, NoaaStation>();
+    for (const line of text.split("\n")) {
+        const fields = line.split(";");
+        if (fields.length < 12) continue;
+        const lat = parseCoordinate(fields[7]);
+        const lon = parseCoordinate(fields[8]);
+        if (lat === null || lon === null) continue;
+        const [icao, , , name, state, country] = fields.map((field) => field.trim());
+        const elevationM = Number(fields[11]);
+        stations.set(icao.toUpperCase(), {
+            // The AWC "name, ST, US" form, which the state filters read
+            name: country === "United States" && state ? `${name}, ${state}, US` : name,
+            lat,
+            lon,
+            elevation_ft: fields[11].trim() && Number.isFinite(elevationM) ? Math.round(metersToFeet(elevationM)) : 0,
+        });
+    }
+    return stations;
+}
+
+function getStationList(): Promise<Map<string, NoaaStation>> {
+    if (!stationList || Date.now() - stationList.loadedAt > STATION_LIST_MAX_AGE_MS) {
+        const stations = fetchText("nsd_cccc.txt", 24 * 60 * 60).then((text) => {
+            if (!text) throw new WeatherProviderError("NOAA station list not found");
+            return parseStationList(text);
+        });
+        // Don't keep a failed load around
+        stations.catch(() => {
+            stationList = null;
+        });
+        stationList = { loadedAt: Date.now(), stations };
+    }
+    return stationList.stations;
+}
+
+// "2024/01/17 15:53" header line used by the station and cycle files
+function parseHeaderTime(line: string): Date | null {
+    const match = line.trim().match(/^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2})$/);
+    if (!match) return null;
+    const [, y, mo, d, h, mi] = match.map(Number);
+    return new Date(Date.UTC(y, mo - 1, d, h, mi));
+}
+
+/**
+ * Split a NOAA text file into reports. Each report starts with a timestamp
+ * line; continuation lines (TAF change groups) are folded into one string.
+ */
+function splitReports(text: string): Array<{ time: Date | null; raw: string }> {
+    const reports: Array<{ time: Date | null; raw: string }> = [];
+    let current: { time: Date | null; lines: string[] } | null = null;
+
+    for (const line of text.split("\n")) {
+        const time = parseHeaderTime(line);
+        if (time) {
+            if (current && current.lines.length > 0) reports.push({ time: current.time, raw: current.lines.join(" ") });
+            current = { time, lines: [] };
+        } else if (line.trim() && current) {
+            current.lines.push(line.trim());
+        }
+    }
+    if (current && current.lines.length > 0) reports.push({ time: current.time, raw: current.lines.join(" ") });
+    return reports;
+}
+
+// Raw text carries no station metadata, so name, coordinates and elevation come from
+// the station list; stations missing from it are dropped rather than placed at 0,0
+function toAwcMetar(raw: string, reference: Date, stations: Map<string, NoaaStation>): AwcMetarResponse | null {
+    const metar = parseMetar(raw, {}, reference);
+    const station = stations.get(metar.icao);
+    if (!metar.icao || !station) return null;
+
+    return {
+        icaoId: metar.icao,
+        rawOb: metar.raw,
+        name: station.name,
+        lat: station.lat,
+        lon: station.lon,
+        elev: station.elevation_ft,
+        obsTime: Math.floor(metar.obs_time_unix / 1000),
+        reportTime: metar.observed_at,
+        temp: metar.temperature_c,
+        dewp: metar.dewpoint_c,
+        wdir: metar.wind_direction ?? (metar.wind_speed_kt ? "VRB" : null),
+        wspd: metar.wind_speed_kt,
+        wgst: metar.wind_gust_kt,
+        visib: metar.visibility_sm,
+        altim: metar.altimeter_hg !== null ? Math.round(metar.altimeter_hg * HPA_PER_INHG * 10) / 10 : null,
+        fltCat: metar.flight_category,
+        clouds: metar.clouds.map((c) => ({ cover: c.cover, base: c.base_ft })),
+        wxString: metar.weather.length > 0 ? metar.weather.join(" ") : undefined,
+        metarType: metar.metar_type,
+    };
+}
+
+function toAwcTaf(raw: string, reference: Date): AwcTafResponse | null {
+    const parsed = parseTafText(raw, reference);
+    if (!parsed.station || !parsed.valid_from || !parsed.valid_to) return null;
+
+    return {
+        icaoId: parsed.station,
+        rawTAF: raw.startsWith("TAF") ? raw : `TAF ${raw}`,
+        name: parsed.station,
+        issueTime: (parsed.issued ?? reference).toISOString(),
+        validTimeFrom: Math.floor(parsed.valid_from.getTime() / 1000),
+        validTimeTo: Math.floor(parsed.valid_to.getTime() / 1000),
+        // transformTaf decodes the groups from rawTAF
+        fcsts: [],
+    };
+}
+
+function parseMetarFile(text: string, stations: Map<string, NoaaStation>): AwcMetarResponse[] {
+    return splitReports(text)
+        .map(({ time, raw }) => toAwcMetar(raw, time ?? new Date(), stations))
+        .filter((m): m is AwcMetarResponse => m !== null);
+}
+
+// NOAA/NWS raw-text station and cycle files (tgftp.nws.noaa.gov)
+export const noaaProvider: WeatherProvider = {
+    name: "noaa",
+
+    async getMetars(query: StationQuery, hours: number): Promise<AwcMetarResponse[]> {
+        const stations = await getStationList();
+
+        if (query.kind === "stations") {
+            // Station files only keep the latest report
+            const files = await Promise.all(
+                query.ids.map((id) => fetchText(`observations/metar/stations/${id.toUpperCase()}.TXT`))
+            );
+            return files.flatMap((text) => (text ? parseMetarFile(text, stations) : []));
+        }
+
+        // Cycle files have no state or country fields, so filter on coordinates from the
+        // station list or on ICAO prefixes. A state query returns every station in the 50 states.
+        const matches: (m: AwcMetarResponse) => boolean =
+            query.kind === "bbox"
+                ? (m) => inBoundingBox(m.lat, m.lon, query.bbox)
+                : (m) => {
+                    const prefixes =
+                        query.kind === "states"
+                            ? US_STATE_PREFIXES
+                            : query.countries.flatMap((country) => COUNTRY_ICAO_PREFIXES[country] ?? []);
+                    return prefixes.some((prefix) => m.icaoId.startsWith(prefix));
+                };
+
+        const now = new Date();
+        const cycles = Array.from({ length: Math.max(1, Math.min(hours, 24)) }, (_, i) =>
+            String((now.getUTCHours() - i + 24) % 24).padStart(2, "0")
+        );
+        const files = await Promise.all(cycles.map((hh) => fetchText(`observations/metar/cycles/${hh}Z.TXT`)));
+        return files.flatMap((text) => (text ? parseMetarFile(text, stations) : [])).filter(matches);
+    },
+
+    async getTafs(ids: string[]): Promise<AwcTafResponse[]> {
+        const files = await Promise.all(
+            ids.map((id) => fetchText(`forecasts/taf/stations/${id.toUpperCase()}.TXT`))
+        );
+        return files.flatMap((text) =>
+            text
+                ? splitReports(text)
+                    .map(({ time, raw }) => toAwcTaf(raw, time ?? new Date()))
+                    .filter((t): t is AwcTafResponse => t !== null)
+                : []
+        );
+    },
+};
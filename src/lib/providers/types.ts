@@ -0,0 +1,73 @@
+import { AwcAirSigmetResponse, AwcGairmetResponse, AwcMetarResponse, AwcPirepResponse, AwcTafResponse, BoundingBox } from "@/types";
+
+/**
+ * What a caller wants observations for. Providers decide how to satisfy it
+ * (one request per state, a single bulk file, a filter over recorded data...).
+ */
+export type StationQuery =
+    | { kind: "stations"; ids: string[] }
+    | { kind: "states"; states: string[] }
+    | { kind: "countries"; countries: string[] }
+    | { kind: "bbox"; bbox: BoundingBox };
+
+/**
+ * Source of METAR/TAF data. Every provider returns records in the AWC JSON
+ * shape, which is what transformMetar/transformTaf and the client expect.
+ */
+export interface WeatherProvider {
+    name: string;
+    getMetars(query: StationQuery, hours: number): Promise<AwcMetarResponse[]>;
+    getTafs(ids: string[]): Promise<AwcTafResponse[]>;
+    /**
+     * Split a query into the parts this provider fetches independently, so a
+     * failure can be attributed to one state or country. Providers that load
+     * everything in one request leave this out and the query stays whole.
+     */
+    partition?(query: StationQuery): StationQuery[];
+    /**
+     * Hazard products, also in the AWC JSON shape: current US SIGMETs and
+     * AIRMETs, the current G-AIRMET forecast, and PIREPs from the last
+     * `hours`. Providers without them leave these out.
+     */
+    getAirSigmets?(): Promise<AwcAirSigmetResponse[]>;
+    getGairmets?(): Promise<AwcGairmetResponse[]>;
+    getPireps?(bbox: BoundingBox, hours: number): Promise<AwcPirepResponse[]>;
+}
+
+// One query per state and per country; stations and bounding boxes stay as they are
+export function partitionByRegion(query: StationQuery): StationQuery[] {
+    if (query.kind === "states") return query.states.map((state) => ({ kind: "states", states: [state] }));
+    if (query.kind === "countries") {
+        return query.countries.map((country) => ({ kind: "countries", countries: [country] }));
+    }
+    return [query];
+}
+
+export class WeatherProviderError extends Error {
+    constructor(
+        message: string,
+        public status: number = 502
+    ) {
+        super(message);
+        this.name = "WeatherProviderError";
+    }
+}
+
+export const USER_AGENT = "METAR-Command-Center/1.0";
+
+function stationNameParts(name: string | undefined): string[] {
+    return (name || "").split(",").map((p) => p.trim());
+}
+
+// State code from an AWC station name such as "Chicago/O'Hare Intl, IL, US"
+export function stateFromStationName(name: string | undefined): string | null {
+    const parts = stationNameParts(name);
+    if (parts.length < 3 || parts[parts.length - 1] !== "US") return null;
+    return parts[parts.length - 2].toLowerCase();
+}
+
+// Country code from an AWC station name such as "Toronto/Pearson Intl, ON, CA"
+export function countryFromStationName(name: string | undefined): string | null {
+    const parts = stationNameParts(name);
+    return parts.length >= 2 ? parts[parts.length - 1].toUpperCase() : null;
+}
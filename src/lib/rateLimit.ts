@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRedis } from "@/lib/maintenance";
+import { apiError } from "@/lib/validation";
+
+const RATE_LIMIT_KEY_PREFIX = "metar-ratelimit:";
+const DEFAULT_LIMIT = 60;
+const DEFAULT_WINDOW_SECONDS = 60;
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number; // Unix timestamp (ms) when the window ends
+}
+
+interface WindowCount {
+    count: number;
+    resetAt: number;
+}
+
+// In-process counters used when Redis isn't configured (or is unreachable)
+const localWindows = new Map<string, WindowCount>();
+
+// Requests allowed per window, from METAR_RATE_LIMIT and METAR_RATE_LIMIT_WINDOW (seconds)
+export function getRateLimitConfig(): { limit: number; windowSeconds: number } {
+    const limit = Number(process.env.METAR_RATE_LIMIT);
+    const windowSeconds = Number(process.env.METAR_RATE_LIMIT_WINDOW);
+    return {
+        limit: Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_LIMIT,
+        windowSeconds: Number.isInteger(windowSeconds) && windowSeconds > 0 ? windowSeconds : DEFAULT_WINDOW_SECONDS,
+    };
+}
+
+// Proxies in front of the app that append to X-Forwarded-For, from METAR_TRUSTED_PROXIES
+function trustedProxyCount(): number {
+    const count = Number(process.env.METAR_TRUSTED_PROXIES);
+    return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * The address the platform reports. Behind METAR_TRUSTED_PROXIES proxies, the
+ * X-Forwarded-For entry the outermost one appended instead; the entries before
+ * it come from the client and can't be trusted. Null when neither is available.
+ */
+export function clientIdentifier(request: NextRequest): string | null {
+    if (request.ip) return request.ip;
+    const proxies = trustedProxyCount();
+    if (proxies > 0) {
+        const hops = (request.headers.get("x-forwarded-for") ?? "")
+            .split(",")
+            .map((hop) => hop.trim())
+            .filter(Boolean);
+        const client = hops[hops.length - proxies];
+        if (client) return client;
+    }
+    return null;
+}
+
+let warnedUnidentified = false;
+
+function countLocally(key: string, windowMs: number, now: number): WindowCount {
+    // Drop expired windows now and then so the map doesn't grow without bound
+    if (localWindows.size > 10000) {
+        localWindows.forEach((window, k) => {
+            if (window.resetAt <= now) localWindows.delete(k);
+        });
+    }
+
+    let window = localWindows.get(key);
+    if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        localWindows.set(key, window);
+    }
+    window.count++;
+    return window;
+}
+
+/**
+ * Fixed-window rate limit per client. Counts live in Redis when it is
+ * configured so every instance shares them; otherwise, or if Redis fails,
+ * each process counts on its own. Clients that can't be identified aren't
+ * limited, rather than all sharing one bucket.
+ */
+export async function checkRateLimit(client: string | null, scope = "metar"): Promise<RateLimitResult> {
+    const { limit, windowSeconds } = getRateLimitConfig();
+    const windowMs = windowSeconds * 1000;
+    const now = Date.now();
+    if (!client) {
+        if (!warnedUnidentified) {
+            warnedUnidentified = true;
+            console.warn(
+                "Rate limiting is off: requests carry no client address. Set METAR_TRUSTED_PROXIES when behind a reverse proxy."
+            );
+        }
+        return { allowed: true, limit, remaining: limit, resetAt: now + windowMs };
+    }
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const key = `${RATE_LIMIT_KEY_PREFIX}${scope}:${client}`;
+
+    let window: WindowCount | null = null;
+    const redis = getRedis();
+    if (redis) {
+        try {
+            const redisKey = `${key}:${windowStart}`;
+            const [count] = await redis.pipeline().incr(redisKey).expire(redisKey, windowSeconds).exec<[number, number]>();
+            window = { count, resetAt: windowStart + windowMs };
+        } catch (error) {
+            console.error("Redis Rate Limit Error:", error);
+        }
+    }
+    if (!window) window = countLocally(key, windowMs, now);
+
+    return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(limit - window.count, 0),
+        resetAt: window.resetAt,
+    };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    return {
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": String(result.remaining),
+        "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+    };
+}
+
+// 429 response for a client over its limit
+export function rateLimitExceeded(result: RateLimitResult): NextResponse {
+    return apiError(429, "RATE_LIMITED", "Too many requests, try again later", {
+        headers: {
+            ...rateLimitHeaders(result),
+            "Retry-After": String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 1)),
+        },
+    });
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { Runway } from "@/types";
+import { parseMetar } from "@/lib/metarUtils";
+import { computeRunwayWinds, reciprocalIdent } from "@/lib/runways";
+
+const runways: Runway[] = [
+    { ident: "04", heading_true: 40, length_ft: 8000 },
+    { ident: "22", heading_true: 220, length_ft: 8000 },
+    { ident: "31", heading_true: 310, length_ft: 10000 },
+    { ident: "13", heading_true: 130, length_ft: 10000 },
+];
+
+describe("reciprocalIdent", () => {
+    it.each([
+        ["09R", "27L"],
+        ["27L", "09R"],
+        ["16C", "34C"],
+        ["10", "28"],
+        ["18", "36"],
+        ["36", "18"],
+        ["1", "19"],
+        [" 04l ", "22R"],
+        ["H1", null],
+        ["09X", null],
+        ["", null],
+    ])("%s -> %s", (ident, expected) => {
+        expect(reciprocalIdent(ident)).toBe(expected);
+    });
+});
+
+describe("computeRunwayWinds", () => {
+    it.each([
+        {
+            wind: "31020KT",
+            expected: {
+                "04": [0, -20, null, null],
+                "22": [0, 20, null, null],
+                "31": [20, 0, null, null],
+                "13": [-20, 0, null, null],
+            },
+        },
+        {
+            wind: "31020G30KT",
+            expected: {
+                "04": [0, -20, 0, -30],
+                "22": [0, 20, 0, 30],
+                "31": [20, 0, 30, 0],
+                "13": [-20, 0, -30, 0],
+            },
+        },
+        {
+            // 45° off runway 04: equal head and cross components
+            wind: "08520KT",
+            expected: {
+                "04": [14, 14, null, null],
+                "22": [-14, -14, null, null],
+                "31": [-14, 14, null, null],
+                "13": [14, -14, null, null],
+            },
+        },
+        {
+            wind: "00000KT",
+            expected: {
+                "04": [0, 0, null, null],
+                "22": [0, 0, null, null],
+                "31": [0, 0, null, null],
+                "13": [0, 0, null, null],
+            },
+        },
+        {
+            wind: "VRB05KT",
+            expected: {
+                "04": [null, null, null, null],
+                "22": [null, null, null, null],
+                "31": [null, null, null, null],
+                "13": [null, null, null, null],
+            },
+        },
+    ])("$wind", ({ wind, expected }) => {
+        const metar = parseMetar(`KXYZ 171553Z ${wind} 10SM CLR 10/05 A2992`);
+        const winds = computeRunwayWinds(runways, metar);
+        // Adding 0 turns the -0 of a rounded perpendicular component into 0
+        const value = (kt: number | null) => (kt === null ? null : kt + 0);
+        expect(
+            Object.fromEntries(
+                winds.map((w) => [
+                    w.runway.ident,
+                    [w.headwind_kt, w.crosswind_kt, w.gust_headwind_kt, w.gust_crosswind_kt].map(value),
+                ])
+            )
+        ).toEqual(expected);
+    });
+});
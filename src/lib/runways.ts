@@ -0,0 +1,116 @@
+import { MetarData, Runway, RunwayWindComponents } from "@/types";
+import runwayData from "@/data/runways.json";
+
+const runwaysByIcao = runwayData as Record<string, Runway[]>;
+
+export function getRunways(icao: string): Runway[] {
+    return runwaysByIcao[icao.toUpperCase().trim()] ?? [];
+}
+
+// "09R" -> { number: 9, side: "R" }
+function parseIdent(ident: string): { number: number; side: string } | null {
+    const match = ident.trim().toUpperCase().match(/^(\d{1,2})([LCR]?)$/);
+    if (!match) return null;
+    return { number: Number(match[1]), side: match[2] };
+}
+
+// The opposite end of a runway: 09R <-> 27L, 16C <-> 34C, 10 <-> 28
+export function reciprocalIdent(ident: string): string | null {
+    const parsed = parseIdent(ident);
+    if (!parsed) return null;
+    const number = ((parsed.number + 17) % 36) + 1;
+    const side = parsed.side === "L" ? "R" : parsed.side === "R" ? "L" : parsed.side;
+    return `${String(number).padStart(2, "0")}${side}`;
+}
+
+export interface RunwayStrip {
+    runway: Runway; // the end numbered 01-18
+    reciprocal?: Runway;
+    offset: number; // slots left (negative) or right of center within a group of parallel runways
+}
+
+const sideOrder: Record<string, number> = { L: 0, C: 1, "": 2, R: 3 };
+
+/**
+ * Each physical runway once, paired with its opposite end by number, for the
+ * runway diagram. Runways sharing a heading are spread left to right by
+ * number and L/C/R, so parallels without a suffix don't overlap.
+ */
+export function runwayStrips(runways: Runway[]): RunwayStrip[] {
+    const pairs = runways
+        .filter((r) => {
+            const parsed = parseIdent(r.ident);
+            // Ends without a readable number are drawn on their own
+            return !parsed || parsed.number <= 18 || !runways.some((o) => o.ident === reciprocalIdent(r.ident));
+        })
+        .map((runway) => ({
+            runway,
+            reciprocal: runways.find((o) => o !== runway && o.ident === reciprocalIdent(runway.ident)),
+        }));
+
+    const groups = new Map<number, typeof pairs>();
+    for (const pair of pairs) {
+        const key = Math.round(pair.runway.heading_true) % 180;
+        groups.set(key, [...(groups.get(key) ?? []), pair]);
+    }
+
+    return Array.from(groups.values()).flatMap((group) => {
+        const sorted = group.slice().sort((a, b) => {
+            const pa = parseIdent(a.runway.ident);
+            const pb = parseIdent(b.runway.ident);
+            if (!pa || !pb) return a.runway.ident.localeCompare(b.runway.ident);
+            return pa.number - pb.number || sideOrder[pa.side] - sideOrder[pb.side];
+        });
+        return sorted.map((pair, i) => ({
+            ...pair,
+            offset: i - (sorted.length - 1) / 2,
+        }));
+    });
+}
+
+function components(windDir: number, speed: number, heading: number): { head: number; cross: number } {
+    const angle = ((windDir - heading) * Math.PI) / 180;
+    return {
+        head: Math.round(speed * Math.cos(angle)),
+        cross: Math.round(speed * Math.sin(angle)),
+    };
+}
+
+// Headwind/crosswind per runway end. Variable winds have no usable direction, so components are null
+export function computeRunwayWinds(runways: Runway[], metar: MetarData): RunwayWindComponents[] {
+    const { wind_direction: dir, wind_speed_kt: speed, wind_gust_kt: gust } = metar;
+    const calm = speed === 0;
+
+    return runways.map((runway) => {
+        if (calm) {
+            return { runway, headwind_kt: 0, crosswind_kt: 0, gust_headwind_kt: null, gust_crosswind_kt: null };
+        }
+        if (dir === null || speed === null) {
+            return { runway, headwind_kt: null, crosswind_kt: null, gust_headwind_kt: null, gust_crosswind_kt: null };
+        }
+        const steady = components(dir, speed, runway.heading_true);
+        const gusting = gust ? components(dir, gust, runway.heading_true) : null;
+        return {
+            runway,
+            headwind_kt: steady.head,
+            crosswind_kt: steady.cross,
+            gust_headwind_kt: gusting?.head ?? null,
+            gust_crosswind_kt: gusting?.cross ?? null,
+        };
+    });
+}
+
+/**
+ * Pick the most favorable runway: most headwind, then least crosswind, then
+ * longest. With calm or variable wind that reduces to the longest runway.
+ */
+export function suggestRunway(winds: RunwayWindComponents[]): RunwayWindComponents | null {
+    if (winds.length === 0) return null;
+    return winds.slice().sort((a, b) => {
+        const head = (b.headwind_kt ?? 0) - (a.headwind_kt ?? 0);
+        if (head !== 0) return head;
+        const cross = Math.abs(a.gust_crosswind_kt ?? a.crosswind_kt ?? 0) - Math.abs(b.gust_crosswind_kt ?? b.crosswind_kt ?? 0);
+        if (cross !== 0) return cross;
+        return b.runway.length_ft - a.runway.length_ft;
+    })[0];
+}
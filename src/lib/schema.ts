@@ -0,0 +1,235 @@
+/**
+ * Minimal runtime schemas. Each schema validates unknown JSON (returning it
+ * unchanged, typed) and describes itself as JSON Schema for the OpenAPI
+ * document, so one definition serves the routes, the client and the docs.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+// Named schemas collected while rendering, emitted as components/schemas
+export type JsonSchemaComponents = Record<string, JsonSchema>;
+
+export class SchemaError extends Error {
+    constructor(
+        message: string,
+        public path: string
+    ) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = "SchemaError";
+    }
+}
+
+type Parser<T> = (value: unknown, path: string) => T;
+type JsonRenderer = (components: JsonSchemaComponents) => JsonSchema;
+
+export class Schema<T> {
+    readonly isOptional: boolean = false;
+    readonly name?: string;
+    readonly description?: string;
+
+    constructor(
+        protected readonly parser: Parser<T>,
+        protected readonly render: JsonRenderer
+    ) {}
+
+    parse(value: unknown, path = ""): T {
+        return this.parser(value, path);
+    }
+
+    safeParse(value: unknown): { success: true; data: T } | { success: false; error: SchemaError } {
+        try {
+            return { success: true, data: this.parser(value, "") };
+        } catch (error) {
+            if (error instanceof SchemaError) return { success: false, error };
+            throw error;
+        }
+    }
+
+    describe(description: string): this {
+        return this.with({ description });
+    }
+
+    // Emitted once under components/schemas and referenced everywhere else
+    named(name: string): this {
+        return this.with({ name });
+    }
+
+    nullable(): Schema<T | null> {
+        return new Schema(
+            (value, path) => (value === null ? null : this.parser(value, path)),
+            (components) => ({ anyOf: [this.toJsonSchema(components), { type: "null" }] })
+        );
+    }
+
+    optional(): OptionalSchema<T> {
+        return new OptionalSchema(this);
+    }
+
+    toJsonSchema(components: JsonSchemaComponents): JsonSchema {
+        const schema = { ...this.render(components), ...(this.description ? { description: this.description } : {}) };
+        if (!this.name) return schema;
+        components[this.name] ??= schema;
+        return { $ref: `#/components/schemas/${this.name}` };
+    }
+
+    private with(meta: { name?: string; description?: string }): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, meta);
+    }
+}
+
+// Object properties that may be missing (but not null unless also nullable)
+export class OptionalSchema<T> extends Schema<T | undefined> {
+    override readonly isOptional = true as const;
+
+    constructor(inner: Schema<T>) {
+        super(
+            (value, path) => (value === undefined ? undefined : inner.parse(value, path)),
+            (components) => inner.toJsonSchema(components)
+        );
+    }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+function describeValue(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+    throw new SchemaError(`expected ${expected}, got ${describeValue(value)}`, path);
+}
+
+function string(options: { pattern?: RegExp; format?: string } = {}): Schema<string> {
+    return new Schema(
+        (value, path) => {
+            if (typeof value !== "string") fail(path, "string", value);
+            if (options.pattern && !options.pattern.test(value)) {
+                throw new SchemaError(`does not match ${options.pattern.source}`, path);
+            }
+            return value;
+        },
+        () => ({
+            type: "string",
+            ...(options.pattern ? { pattern: options.pattern.source } : {}),
+            ...(options.format ? { format: options.format } : {}),
+        })
+    );
+}
+
+function number(options: { integer?: boolean; minimum?: number; maximum?: number } = {}): Schema<number> {
+    return new Schema(
+        (value, path) => {
+            if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "number", value);
+            if (options.integer && !Number.isInteger(value)) fail(path, "integer", value);
+            if (options.minimum !== undefined && value < options.minimum) {
+                throw new SchemaError(`must be at least ${options.minimum}`, path);
+            }
+            if (options.maximum !== undefined && value > options.maximum) {
+                throw new SchemaError(`must be at most ${options.maximum}`, path);
+            }
+            return value;
+        },
+        () => ({
+            type: options.integer ? "integer" : "number",
+            ...(options.minimum !== undefined ? { minimum: options.minimum } : {}),
+            ...(options.maximum !== undefined ? { maximum: options.maximum } : {}),
+        })
+    );
+}
+
+function boolean(): Schema<boolean> {
+    return new Schema(
+        (value, path) => (typeof value === "boolean" ? value : fail(path, "boolean", value)),
+        () => ({ type: "boolean" })
+    );
+}
+
+function enumOf<const T extends string>(values: readonly T[]): Schema<T> {
+    return new Schema(
+        (value, path) => {
+            if (!(values as readonly unknown[]).includes(value)) fail(path, `one of ${values.join(", ")}`, value);
+            return value as T;
+        },
+        () => ({ type: "string", enum: [...values] })
+    );
+}
+
+// Anything; for fields the API passes through without a fixed shape. `T` is
+// taken on trust, nothing about the value is checked.
+function unknown<T = unknown>(): Schema<T> {
+    return new Schema(
+        (value) => value as T,
+        () => ({})
+    );
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+    return new Schema(
+        (value, path) => {
+            if (!Array.isArray(value)) fail(path, "array", value);
+            value.forEach((element, i) => item.parse(element, `${path}[${i}]`));
+            return value as T[];
+        },
+        (components) => ({ type: "array", items: item.toJsonSchema(components) })
+    );
+}
+
+function record<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+    return new Schema(
+        (value, path) => {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "object", value);
+            for (const [key, entry] of Object.entries(value)) valueSchema.parse(entry, path ? `${path}.${key}` : key);
+            return value as Record<string, T>;
+        },
+        (components) => ({ type: "object", additionalProperties: valueSchema.toJsonSchema(components) })
+    );
+}
+
+// Unlisted properties are allowed and kept, so additive API changes don't break older clients
+function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+    return new Schema(
+        (value, path) => {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "object", value);
+            const fields = value as Record<string, unknown>;
+            for (const [key, schema] of Object.entries(shape)) {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (fields[key] === undefined && !schema.isOptional) {
+                    throw new SchemaError("is required", fieldPath);
+                }
+                schema.parse(fields[key], fieldPath);
+            }
+            return value as ObjectOf<S>;
+        },
+        (components) => ({
+            type: "object",
+            properties: Object.fromEntries(
+                Object.entries(shape).map(([key, schema]) => [key, schema.toJsonSchema(components)])
+            ),
+            required: Object.entries(shape)
+                .filter(([, schema]) => !schema.isOptional)
+                .map(([key]) => key),
+        })
+    );
+}
+
+function union<S extends Schema<unknown>[]>(...options: S): Schema<Infer<S[number]>> {
+    return new Schema(
+        (value, path) => {
+            for (const option of options) {
+                const result = option.safeParse(value);
+                if (result.success) return result.data as Infer<S[number]>;
+            }
+            throw new SchemaError("does not match any allowed type", path);
+        },
+        (components) => ({ anyOf: options.map((option) => option.toJsonSchema(components)) })
+    );
+}
+
+export const s = { string, number, boolean, enumOf, unknown, array, record, object, union };
@@ -0,0 +1,248 @@
+import { AwcMetarResponse, MetarData, MetarSnapshot, SnapshotRegionStatus } from "@/types";
+import { compareMetarWithAwc, transformMetar } from "@/lib/metarUtils";
+import { getWeatherProvider, StationQuery } from "@/lib/providers";
+import { coverageRegions, formatBoundingBox, getConfiguredCoverage, resolveCoverage } from "@/lib/coverage";
+import { getRedis } from "@/lib/maintenance";
+
+const LAST_GOOD_KEY_PREFIX = "metar-snapshot:";
+// A region unseen for this long has dropped out of the coverage
+const LAST_GOOD_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Upstream requests in flight at once
+const PART_CONCURRENCY = 10;
+
+interface PartResult {
+    id: string;
+    label: string;
+    metars: MetarData[] | null; // null when the fetch failed
+    error?: string;
+}
+
+interface LastGood {
+    fetchedAt: number;
+    metars: MetarData[];
+}
+
+// Last successful result per region, shared with Redis when it is configured
+const lastGoodCache = new Map<string, LastGood>();
+// When each region was last written to Redis. Unchanged results are only rewritten
+// this often, to keep the age of a stale copy roughly right.
+const lastGoodWrittenAt = new Map<string, number>();
+const LAST_GOOD_REWRITE_MS = 10 * 60 * 1000;
+
+function describeQuery(query: StationQuery): { id: string; label: string } {
+    switch (query.kind) {
+        case "states":
+            return { id: `state:${query.states.join(",")}`, label: query.states.join(", ").toUpperCase() };
+        case "countries":
+            return { id: `country:${query.countries.join(",")}`, label: query.countries.join(", ") };
+        case "bbox":
+            return { id: `bbox:${formatBoundingBox(query.bbox)}`, label: `Area ${formatBoundingBox(query.bbox)}` };
+        default:
+            return { id: `stations:${query.ids.join(",")}`, label: query.ids.join(", ") };
+    }
+}
+
+let regionPartIds: Set<string> | null = null;
+
+/**
+ * Whether a part belongs to a named region in regions.json. Only those keep a
+ * last-good copy; boxes and countries a request makes up are fetched as-is, so
+ * they can't grow the cache without bound.
+ */
+function isRegionPart(id: string): boolean {
+    if (!regionPartIds) {
+        const provider = getWeatherProvider();
+        const queries = resolveCoverage(coverageRegions.map((region) => region.id));
+        const parts = queries.flatMap((query) => (provider.partition ? provider.partition(query) : [query]));
+        regionPartIds = new Set(parts.map((part) => describeQuery(part).id));
+    }
+    return regionPartIds.has(id);
+}
+
+// Reports to quote when the parser and AWC's decoding disagree
+const CROSS_CHECK_EXAMPLES = 5;
+
+// Log where our parse of the raw text disagrees with the provider's decoded fields
+function crossCheck(label: string, items: AwcMetarResponse[]): void {
+    const mismatched = items
+        .map((item) => ({ icao: item.icaoId, raw: item.rawOb, discrepancies: compareMetarWithAwc(item) }))
+        .filter((check) => check.discrepancies.length > 0);
+    if (mismatched.length === 0) return;
+    console.warn(
+        `Parser cross-check: ${mismatched.length} of ${items.length} reports for ${label} differ from the provider's decoding`,
+        mismatched.slice(0, CROSS_CHECK_EXAMPLES)
+    );
+}
+
+/**
+ * Fetch each independently fetchable part of the queries (one per state or
+ * country where the provider supports it), recording failures instead of
+ * dropping them so callers can tell a failed region from an empty one.
+ */
+async function fetchParts(queries: StationQuery[], checkParser = false): Promise<PartResult[]> {
+    const provider = getWeatherProvider();
+    const parts = queries.flatMap((query) => (provider.partition ? provider.partition(query) : [query]));
+
+    const results: PartResult[] = [];
+    for (let i = 0; i < parts.length; i += PART_CONCURRENCY) {
+        const batch = await Promise.all(
+            parts.slice(i, i + PART_CONCURRENCY).map(async (query): Promise<PartResult> => {
+                const { id, label } = describeQuery(query);
+                try {
+                    const items = await provider.getMetars(query, 1);
+                    if (checkParser) crossCheck(label, items);
+                    return { id, label, metars: items.map((item) => transformMetar(item)) };
+                } catch (err) {
+                    console.error(`Error fetching ${label}:`, err);
+                    return { id, label, metars: null, error: err instanceof Error ? err.message : "Fetch failed" };
+                }
+            })
+        );
+        results.push(...batch);
+    }
+    return results;
+}
+
+async function loadLastGood(id: string): Promise<LastGood | null> {
+    const cached = lastGoodCache.get(id);
+    if (cached) return cached;
+
+    const redis = getRedis();
+    if (!redis) return null;
+    try {
+        const stored = await redis.get<LastGood>(LAST_GOOD_KEY_PREFIX + id);
+        if (stored) lastGoodCache.set(id, stored);
+        return stored;
+    } catch (error) {
+        console.error("Redis Read Error:", error);
+        return null;
+    }
+}
+
+function sameObservations(a: MetarData[], b: MetarData[]): boolean {
+    return (
+        a.length === b.length &&
+        a.every((m, i) => m.icao === b[i].icao && m.obs_time_unix === b[i].obs_time_unix && m.raw === b[i].raw)
+    );
+}
+
+async function saveLastGood(id: string, entry: LastGood): Promise<void> {
+    const previous = lastGoodCache.get(id);
+    lastGoodCache.set(id, entry);
+    const redis = getRedis();
+    if (!redis) return;
+
+    const writtenAt = lastGoodWrittenAt.get(id);
+    const unchanged = previous !== undefined && sameObservations(previous.metars, entry.metars);
+    if (unchanged && writtenAt !== undefined && entry.fetchedAt - writtenAt < LAST_GOOD_REWRITE_MS) return;
+    try {
+        await redis.set(LAST_GOOD_KEY_PREFIX + id, entry, { ex: LAST_GOOD_TTL_SECONDS });
+        lastGoodWrittenAt.set(id, entry.fetchedAt);
+    } catch (error) {
+        console.error("Redis Write Error:", error);
+    }
+}
+
+/**
+ * Every observation the provider returns for the coverage, including older
+ * METARs and SPECIs for the same station. Defaults to the regions configured
+ * with METAR_COVERAGE. A region that fails is logged and skipped so one bad
+ * region doesn't empty the result. With `checkParser`, reports whose raw text
+ * parses differently from the provider's decoded fields are logged.
+ */
+export async function fetchMetarObservations(
+    queries: StationQuery[] = resolveCoverage(getConfiguredCoverage()),
+    { checkParser = false }: { checkParser?: boolean } = {}
+): Promise<MetarData[]> {
+    const parts = await fetchParts(queries, checkParser);
+    return parts.flatMap((part) => part.metars ?? []);
+}
+
+// Deduplicate by ICAO - keep only the most recent observation for each station
+export function latestPerStation(metars: MetarData[]): MetarData[] {
+    const stationMap = new Map<string, MetarData>();
+    for (const metar of metars) {
+        const existing = stationMap.get(metar.icao);
+        if (!existing || metar.obs_time_unix > existing.obs_time_unix) {
+            stationMap.set(metar.icao, metar);
+        }
+    }
+
+    return Array.from(stationMap.values());
+}
+
+// Latest observation for every station in the coverage, one entry per ICAO
+export async function fetchMetarSnapshot(
+    queries: StationQuery[] = resolveCoverage(getConfiguredCoverage())
+): Promise<MetarData[]> {
+    return latestPerStation(await fetchMetarObservations(queries));
+}
+
+/**
+ * Latest observation per station plus freshness metadata. Each named region
+ * that succeeds becomes that region's last-known-good copy. A region that fails,
+ * or suddenly returns no stations after having some, is served from that
+ * copy and marked stale. With no copy, it is reported as failed.
+ */
+export async function fetchCoverageSnapshot(
+    queries: StationQuery[] = resolveCoverage(getConfiguredCoverage())
+): Promise<MetarSnapshot> {
+    const generatedAt = Date.now();
+    const parts = await fetchParts(queries);
+
+    const served = await Promise.all(
+        parts.map(async (part): Promise<{ status: SnapshotRegionStatus; metars: MetarData[] }> => {
+            const keepsLastGood = isRegionPart(part.id);
+            const lastGood =
+                !keepsLastGood || (part.metars && part.metars.length > 0) ? null : await loadLastGood(part.id);
+
+            if (part.metars && (part.metars.length > 0 || !lastGood || lastGood.metars.length === 0)) {
+                if (keepsLastGood && part.metars.length > 0) {
+                    await saveLastGood(part.id, { fetchedAt: generatedAt, metars: part.metars });
+                }
+                return {
+                    status: {
+                        id: part.id,
+                        label: part.label,
+                        status: "ok",
+                        stations: part.metars.length,
+                        fetchedAt: generatedAt,
+                    },
+                    metars: part.metars,
+                };
+            }
+
+            const error = part.error ?? "No stations returned";
+            if (lastGood) {
+                return {
+                    status: {
+                        id: part.id,
+                        label: part.label,
+                        status: "stale",
+                        stations: lastGood.metars.length,
+                        fetchedAt: lastGood.fetchedAt,
+                        error,
+                    },
+                    metars: lastGood.metars,
+                };
+            }
+            return {
+                status: { id: part.id, label: part.label, status: "failed", stations: 0, fetchedAt: null, error },
+                metars: [],
+            };
+        })
+    );
+
+    const regions = served.map((s) => s.status);
+    const fetchTimes = regions.map((r) => r.fetchedAt).filter((t): t is number => t !== null);
+    return {
+        meta: {
+            generatedAt,
+            dataAgeSeconds: fetchTimes.length > 0 ? Math.round((generatedAt - Math.min(...fetchTimes)) / 1000) : null,
+            stale: regions.some((r) => r.status === "stale"),
+            incomplete: regions.some((r) => r.status === "failed"),
+            regions,
+        },
+        metars: latestPerStation(served.flatMap((s) => s.metars)),
+    };
+}
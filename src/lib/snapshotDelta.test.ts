@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { MetarData, MetarSnapshot } from "@/types";
+import { parseMetar } from "@/lib/metarUtils";
+import { mergeSnapshotDelta } from "@/lib/snapshotDelta";
+import { diffSnapshot, indexSnapshot } from "@/lib/snapshotVersions";
+
+const reference = new Date("2024-01-17T18:00:00Z");
+
+function metar(icao: string, time: string, body = "08010KT 10SM CLR 10/05 A2992"): MetarData {
+    return parseMetar(`${icao} ${time}Z ${body}`, {}, reference);
+}
+
+function snapshot(metars: MetarData[], generatedAt = reference.getTime()): MetarSnapshot {
+    return { meta: { generatedAt, dataAgeSeconds: 0, stale: false, incomplete: false, regions: [] }, metars };
+}
+
+const byIcao = (metars: MetarData[]) => metars.slice().sort((a, b) => a.icao.localeCompare(b.icao));
+
+const aaa = metar("KAAA", "171553");
+const bbb = metar("KBBB", "171553");
+const ccc = metar("KCCC", "171553");
+
+describe("mergeSnapshotDelta", () => {
+    it.each([
+        { change: "nothing", base: [aaa, bbb], next: [aaa, bbb], changed: [], removed: [] },
+        { change: "a new station", base: [aaa], next: [aaa, bbb], changed: ["KBBB"], removed: [] },
+        { change: "a dropped station", base: [aaa, bbb], next: [aaa], changed: [], removed: ["KBBB"] },
+        {
+            change: "a newer observation",
+            base: [aaa, bbb],
+            next: [metar("KAAA", "171653"), bbb],
+            changed: ["KAAA"],
+            removed: [],
+        },
+        {
+            change: "a SPECI at the same time",
+            base: [aaa, bbb],
+            next: [metar("KAAA", "171553", "08010KT 2SM BR OVC008 10/09 A2992"), bbb],
+            changed: ["KAAA"],
+            removed: [],
+        },
+        {
+            change: "everything",
+            base: [aaa, bbb],
+            next: [metar("KBBB", "171653"), ccc],
+            changed: ["KBBB", "KCCC"],
+            removed: ["KAAA"],
+        },
+        { change: "an empty base", base: [], next: [aaa, bbb], changed: ["KAAA", "KBBB"], removed: [] },
+        { change: "an empty snapshot", base: [aaa, bbb], next: [], changed: [], removed: ["KAAA", "KBBB"] },
+    ])("rebuilds the snapshot after $change", ({ base, next, changed, removed }) => {
+        const previous = snapshot(base);
+        const current = snapshot(next, reference.getTime() + 60_000);
+        const before = indexSnapshot(previous);
+        const delta = diffSnapshot(current, indexSnapshot(current).index, before.index, before.version);
+
+        expect(delta.changed.map((m) => m.icao).sort()).toEqual(changed);
+        expect(delta.removed.sort()).toEqual(removed);
+
+        const merged = mergeSnapshotDelta(previous, delta);
+        expect(merged.meta).toBe(current.meta);
+        expect(byIcao(merged.metars)).toEqual(byIcao(current.metars));
+    });
+});
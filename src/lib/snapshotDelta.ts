@@ -0,0 +1,10 @@
+import { MetarSnapshot, MetarSnapshotDelta } from "@/types";
+
+// Apply a delta on top of the snapshot it was computed against; the client-side counterpart of diffSnapshot
+export function mergeSnapshotDelta(base: MetarSnapshot, delta: MetarSnapshotDelta): MetarSnapshot {
+    const replaced = new Set([...delta.removed, ...delta.changed.map((metar) => metar.icao)]);
+    return {
+        meta: delta.meta,
+        metars: [...base.metars.filter((metar) => !replaced.has(metar.icao)), ...delta.changed],
+    };
+}
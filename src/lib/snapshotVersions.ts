@@ -0,0 +1,79 @@
+import { createHash } from "crypto";
+import { MetarSnapshot, MetarSnapshotDelta } from "@/types";
+import { getRedis } from "@/lib/maintenance";
+
+const INDEX_KEY_PREFIX = "metar-snapshot-index:";
+const INDEX_TTL_SECONDS = 60 * 60;
+const MAX_LOCAL_INDEXES = 24;
+
+// ICAO -> fingerprint of the observation served for it
+export type SnapshotIndex = Record<string, string>;
+
+// Recent indexes so `since` cursors can be diffed, newest last; mirrored to Redis when configured
+const localIndexes = new Map<string, SnapshotIndex>();
+
+function hash(text: string): string {
+    return createHash("sha1").update(text).digest("hex");
+}
+
+/**
+ * Fingerprint every station and the snapshot as a whole. The version only
+ * depends on content (observations and region statuses), so two requests
+ * that see the same data get the same version and ETag.
+ */
+export function indexSnapshot(snapshot: MetarSnapshot): { version: string; index: SnapshotIndex } {
+    const index: SnapshotIndex = {};
+    for (const metar of snapshot.metars) {
+        index[metar.icao] = hash(`${metar.obs_time_unix}|${metar.raw}`).slice(0, 12);
+    }
+    const stations = Object.keys(index)
+        .sort()
+        .map((icao) => `${icao}:${index[icao]}`);
+    const regions = snapshot.meta.regions.map((r) => `${r.id}:${r.status}`);
+    return { version: hash([...stations, ...regions].join("\n")).slice(0, 16), index };
+}
+
+export async function rememberSnapshotIndex(version: string, index: SnapshotIndex): Promise<void> {
+    if (localIndexes.has(version)) return;
+    localIndexes.set(version, index);
+    if (localIndexes.size > MAX_LOCAL_INDEXES) {
+        localIndexes.delete(localIndexes.keys().next().value as string);
+    }
+
+    const redis = getRedis();
+    if (!redis) return;
+    try {
+        await redis.set(INDEX_KEY_PREFIX + version, index, { ex: INDEX_TTL_SECONDS });
+    } catch (error) {
+        console.error("Redis Write Error:", error);
+    }
+}
+
+export async function loadSnapshotIndex(version: string): Promise<SnapshotIndex | null> {
+    const local = localIndexes.get(version);
+    if (local) return local;
+
+    const redis = getRedis();
+    if (!redis) return null;
+    try {
+        return await redis.get<SnapshotIndex>(INDEX_KEY_PREFIX + version);
+    } catch (error) {
+        console.error("Redis Read Error:", error);
+        return null;
+    }
+}
+
+// Stations added or re-observed since `previous`, and stations no longer in the snapshot
+export function diffSnapshot(
+    snapshot: MetarSnapshot,
+    index: SnapshotIndex,
+    previous: SnapshotIndex,
+    since: string
+): MetarSnapshotDelta {
+    return {
+        meta: snapshot.meta,
+        since,
+        changed: snapshot.metars.filter((metar) => previous[metar.icao] !== index[metar.icao]),
+        removed: Object.keys(previous).filter((icao) => !(icao in index)),
+    };
+}
@@ -0,0 +1,206 @@
+import { MetarData, StationInfo } from "@/types";
+import stationData from "@/data/stations.json";
+
+const stations = stationData as StationInfo[];
+
+const stationsByIcao = new Map(stations.map((station) => [station.icao, station]));
+
+// ICAO, IATA and FAA identifiers -> station; ICAO codes win when an identifier is ambiguous
+const stationsById = new Map<string, StationInfo>();
+for (const station of stations) {
+    for (const id of [station.faa, station.iata]) {
+        if (id && !stationsById.has(id)) stationsById.set(id, station);
+    }
+}
+for (const station of stations) stationsById.set(station.icao, station);
+
+// Lowercase, without accents or punctuation, so "O'Hare" finds "Chicago O'Hare Intl" as "ohare"
+export function normalizeSearchText(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/['’.]/g, "")
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+interface SearchEntry {
+    ids: string[]; // ICAO, IATA and FAA identifiers
+    name: string; // normalized
+    city: string; // normalized
+    text: string; // normalized name, city, state and country
+}
+
+function searchEntry(ids: (string | null)[], name: string, place: (string | null)[]): SearchEntry {
+    const normalizedName = normalizeSearchText(name);
+    const city = normalizeSearchText(place[0] ?? "");
+    return {
+        ids: ids.filter((id): id is string => !!id),
+        name: normalizedName,
+        city,
+        text: normalizeSearchText([name, ...place].filter(Boolean).join(" ")),
+    };
+}
+
+const catalogEntries = new Map(
+    stations.map((station) => [
+        station.icao,
+        searchEntry([station.icao, station.iata, station.faa], station.name, [station.city, station.state, station.country]),
+    ])
+);
+
+export function getStationInfo(icao: string): StationInfo | undefined {
+    return stationsByIcao.get(icao.toUpperCase().trim());
+}
+
+export function findStationById(id: string): StationInfo | undefined {
+    return stationsById.get(id.toUpperCase().trim());
+}
+
+// Query letters in order from the start of a word, so "ohre" finds "ohare": the query length over
+// the shortest such span, from 1 for contiguous letters down to 0 for no match or a span over twice as long
+function fuzzyRatio(query: string, text: string): number {
+    const letters = query.replace(/ /g, "");
+    let best = 0;
+    for (let start = text.indexOf(letters[0]); start >= 0; start = text.indexOf(letters[0], start + 1)) {
+        if (start > 0 && text[start - 1] !== " ") continue;
+        let at = start;
+        for (let i = 1; i < letters.length && at >= 0; i++) at = text.indexOf(letters[i], at + 1);
+        if (at >= 0) best = Math.max(best, letters.length / (at - start + 1));
+    }
+    return best >= 0.5 ? best : 0;
+}
+
+/**
+ * 0 when the entry does not match; higher is a better match. Exact and
+ * prefix identifiers rank first, then names and cities by word, then
+ * (with `fuzzy`) scattered letters.
+ */
+function scoreEntry(entry: SearchEntry, query: string, id: string, fuzzy = false): number {
+    if (entry.ids.includes(id)) return 100;
+    if (id.length >= 2 && entry.ids.some((entryId) => entryId.startsWith(id))) return 80;
+
+    if (!query) return 0;
+    if (entry.name.startsWith(query) || entry.city.startsWith(query)) return 60;
+    const words = entry.text.split(" ");
+    if (query.split(" ").every((part) => words.some((word) => word.startsWith(part)))) return 40;
+    if (entry.text.includes(query)) return 20;
+
+    if (!fuzzy || query.length < 3) return 0;
+    // Scattered letters rank below every substring match
+    return Math.round(fuzzyRatio(query, entry.text) * 19);
+}
+
+function searchId(query: string): string {
+    return query.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Catalog stations matching an identifier, name or city, best first.
+ * Identifiers match exactly or by prefix; names and cities by word.
+ */
+export function searchStations(query: string, limit = 10): StationInfo[] {
+    const normalized = normalizeSearchText(query);
+    const id = searchId(query);
+    if (!normalized && !id) return [];
+
+    return stations
+        .map((station) => ({ station, score: scoreEntry(catalogEntries.get(station.icao)!, normalized, id) }))
+        .filter((match) => match.score > 0)
+        .sort((a, b) => b.score - a.score || a.station.icao.localeCompare(b.station.icao))
+        .slice(0, limit)
+        .map((match) => match.station);
+}
+
+// Whether the search box text matches the station's catalog identifiers, name or city
+export function catalogMatches(icao: string, query: string): boolean {
+    const entry = catalogEntries.get(icao.toUpperCase().trim());
+    return !!entry && scoreEntry(entry, normalizeSearchText(query), searchId(query)) > 0;
+}
+
+export interface StationSuggestion {
+    icao: string;
+    name: string;
+    place: string | null; // "Chicago, IL", for catalog stations
+    metar: MetarData | null; // latest observation, when the station is loaded
+}
+
+/**
+ * Ranked search box suggestions from the catalog and the loaded
+ * observations, tolerant of typos and missing letters. Stations with an
+ * observation win ties, so the dropdown can show their category.
+ */
+export function suggestStations(query: string, observed: MetarData[], limit = 8): StationSuggestion[] {
+    const normalized = normalizeSearchText(query);
+    const id = searchId(query);
+    if (!normalized && !id) return [];
+
+    const metars = new Map(observed.map((m) => [m.icao, m]));
+    const matches: { suggestion: StationSuggestion; score: number }[] = [];
+
+    for (const station of stations) {
+        const score = scoreEntry(catalogEntries.get(station.icao)!, normalized, id, true);
+        if (score === 0) continue;
+        matches.push({
+            score,
+            suggestion: {
+                icao: station.icao,
+                name: station.name,
+                place: [station.city, station.state ?? station.country].join(", "),
+                metar: metars.get(station.icao) ?? null,
+            },
+        });
+    }
+    for (const m of observed) {
+        if (stationsByIcao.has(m.icao)) continue;
+        const score = scoreEntry(searchEntry([m.icao], m.station_name ?? "", []), normalized, id, true);
+        if (score > 0) matches.push({ score, suggestion: { icao: m.icao, name: m.station_name, place: null, metar: m } });
+    }
+
+    return matches
+        .sort(
+            (a, b) =>
+                b.score - a.score ||
+                Number(!!b.suggestion.metar) - Number(!!a.suggestion.metar) ||
+                a.suggestion.icao.localeCompare(b.suggestion.icao)
+        )
+        .slice(0, limit)
+        .map((match) => match.suggestion);
+}
+
+/**
+ * The ICAO code the user most likely means by a search box entry: an ICAO,
+ * IATA or FAA identifier, or an airport name or city. Stations outside the
+ * catalog resolve through the loaded observations, and a bare 3-letter FAA
+ * identifier falls back to its K-prefixed ICAO code.
+ */
+export function resolveStationId(query: string, observed: MetarData[] = []): string | null {
+    const trimmed = query.trim();
+    const id = trimmed.toUpperCase();
+    if (!trimmed) return null;
+
+    const byId = findStationById(id);
+    if (byId) return byId.icao;
+
+    const looksLikeId = /^[A-Z0-9]{3,4}$/.test(id);
+    if (looksLikeId) {
+        // Alaska and Hawaii identifiers take a P prefix rather than K
+        const match = observed.find((m) => m.icao === id || m.icao === `K${id}` || m.icao === `P${id}`);
+        if (match) return match.icao;
+    }
+
+    // Three characters are an identifier; longer text may be a name, e.g. "Reno"
+    if (id.length > 3) {
+        const [best] = searchStations(trimmed, 1);
+        if (best) return best.icao;
+
+        const normalized = normalizeSearchText(trimmed);
+        const byName = observed.find((m) => normalizeSearchText(m.station_name ?? "").includes(normalized));
+        if (normalized && byName) return byName.icao;
+    }
+
+    if (/^[A-Z]{3}$/.test(id)) return `K${id}`;
+    // FAA identifiers with a digit (e.g. 0S9) have no ICAO code and are used as-is
+    return looksLikeId ? id : null;
+}
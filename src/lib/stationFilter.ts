@@ -0,0 +1,44 @@
+import { MetarData } from "@/types";
+import { catalogMatches } from "@/lib/stationCatalog";
+import { matchesStationQuery, parseStationQuery } from "@/lib/stationQuery";
+
+export type StatusFilter = "all" | "ok" | "flagged";
+export type CategoryFilter = "all" | MetarData["flight_category"];
+
+// The search box, status, category and favorites filters; shared by the station views and exports
+export interface StationFilter {
+    search: string; // free text plus query terms such as cat:IFR or gust>25, see stationQuery.ts
+    status: StatusFilter;
+    category: CategoryFilter;
+    stations: string[] | null; // restrict to these ICAO codes (the favorites), when set
+}
+
+// Parses the search box once, for filtering many stations
+export function stationMatcher(filter: StationFilter): (m: MetarData) => boolean {
+    const query = parseStationQuery(filter.search);
+    const text = query.text.toUpperCase();
+
+    return (m) => {
+        // Text filter
+        if (text.length > 0) {
+            const matches =
+                m.icao.includes(text) || m.station_name?.toUpperCase().includes(text) || catalogMatches(m.icao, text);
+            if (!matches) return false;
+        }
+
+        // Query terms
+        if (!matchesStationQuery(m, query)) return false;
+
+        // Favorites filter
+        if (filter.stations && !filter.stations.includes(m.icao)) return false;
+
+        // Status filter
+        if (filter.status === "flagged" && !m.has_maintenance_flag) return false;
+        if (filter.status === "ok" && m.has_maintenance_flag) return false;
+
+        // Category filter
+        if (filter.category !== "all" && m.flight_category !== filter.category) return false;
+
+        return true;
+    };
+}
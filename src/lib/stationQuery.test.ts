@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { MetarData } from "@/types";
+import { parseMetar } from "@/lib/metarUtils";
+import { matchesStationQuery, parseStationQuery, removeQueryTerm } from "@/lib/stationQuery";
+
+function station(raw: string, name: string): MetarData {
+    return { ...parseMetar(raw), station_name: name };
+}
+
+// Not in the bundled catalog, so state and country come from the names
+const stations = [
+    station("KAAA 171553Z 08010KT 10SM CLR 20/10 A2992", "Alpha, TX, US"),
+    station("KBBB 171553Z 27025G35KT 2SM -RA BKN008 OVC015 05/03 A2992", "Bravo, IL, US"),
+    station("SPECI KCCC 171553Z AUTO 00000KT 1/4SM FG VV001 10/10 A2992 RMK AO2 $", "Charlie, TX, US"),
+    station("CYYY 171553Z VRB03KT 9999 FEW030 15/05 Q1013", "Delta, ON, CA"),
+];
+
+describe("parseStationQuery", () => {
+    it.each([
+        { input: "", labels: [], text: "" },
+        { input: "KJFK o'hare", labels: [], text: "KJFK o'hare" },
+        { input: "cat:IFR,LIFR", labels: ["Category IFR or LIFR"], text: "" },
+        { input: "state:tx gust>25 flagged", labels: ["State TX", "Gust > 25 kt", "$ maintenance"], text: "" },
+        { input: "visibility<=3 ceiling>=1000", labels: ["Visibility <= 3 SM", "Ceiling >= 1000 ft"], text: "" },
+        { input: "-wx:RA !auto", labels: ["not Weather RA", "not Automated"], text: "" },
+        { input: 'wx:"RA, SN" chicago', labels: ["Weather RA or SN"], text: "chicago" },
+        { input: "- !", labels: [], text: "- !" },
+    ])("$input", ({ input, labels, text }) => {
+        const query = parseStationQuery(input);
+        expect(query.terms.map((term) => term.label)).toEqual(labels);
+        expect(query.terms.every((term) => term.valid)).toBe(true);
+        expect(query.text).toBe(text);
+    });
+
+    it.each([
+        { input: "foo:bar", reason: 'Unknown field "foo"' },
+        { input: "foo>3", reason: 'Unknown field "foo"' },
+        { input: "gust>abc", reason: "Gust needs a number" },
+        { input: "gust>", reason: "Gust needs a number" },
+        { input: "cat:XYZ", reason: 'Invalid category "XYZ"' },
+        { input: "cat:", reason: "Category needs a value" },
+        { input: "state:TEXAS", reason: 'Invalid state "TEXAS"' },
+        { input: "-type:TAF", reason: 'Invalid report "TAF"' },
+    ])("$input is invalid: $reason", ({ input, reason }) => {
+        const [term] = parseStationQuery(input).terms;
+        expect(term).toMatchObject({ raw: input, label: reason, valid: false });
+        // Invalid terms don't filter anything out
+        expect(stations.every((m) => term.test(m))).toBe(true);
+    });
+});
+
+describe("matchesStationQuery", () => {
+    it.each([
+        { input: "", matches: ["KAAA", "KBBB", "KCCC", "CYYY"] },
+        { input: "cat:IFR,LIFR", matches: ["KBBB", "KCCC"] },
+        { input: "state:TX", matches: ["KAAA", "KCCC"] },
+        { input: "-state:TX", matches: ["KBBB", "CYYY"] },
+        { input: "country:CA", matches: ["CYYY"] },
+        { input: "gust>25", matches: ["KBBB"] },
+        { input: "gust<15", matches: ["KAAA", "KCCC", "CYYY"] },
+        { input: "wind=0", matches: ["KCCC"] },
+        { input: "vis<3", matches: ["KBBB", "KCCC"] },
+        { input: "ceil<1000", matches: ["KBBB", "KCCC"] },
+        { input: "ceil>3000", matches: ["KAAA", "CYYY"] },
+        { input: "spread<=2", matches: ["KBBB", "KCCC"] },
+        { input: "wx:RA", matches: ["KBBB"] },
+        { input: "wx:-RA", matches: ["KBBB"] },
+        { input: "wx:+RA", matches: [] },
+        { input: "wx:RA,FG", matches: ["KBBB", "KCCC"] },
+        { input: "flagged", matches: ["KCCC"] },
+        { input: "ok", matches: ["KAAA", "KBBB", "CYYY"] },
+        { input: "auto", matches: ["KCCC"] },
+        { input: "speci", matches: ["KCCC"] },
+        { input: "type:METAR", matches: ["KAAA", "KBBB", "CYYY"] },
+        { input: "id:K", matches: ["KAAA", "KBBB", "KCCC"] },
+        { input: "cat:VFR state:TX", matches: ["KAAA"] },
+        { input: "cat:VFR foo:bar", matches: ["KAAA", "CYYY"] },
+    ])("$input", ({ input, matches }) => {
+        const query = parseStationQuery(input);
+        expect(stations.filter((m) => matchesStationQuery(m, query)).map((m) => m.icao)).toEqual(matches);
+    });
+});
+
+describe("removeQueryTerm", () => {
+    it.each([
+        { input: "cat:IFR state:TX", remove: 0, result: "state:TX" },
+        { input: "chicago   gust>25  flagged", remove: 0, result: "chicago flagged" },
+        { input: 'wx:"RA,SN" KORD', remove: 0, result: "KORD" },
+    ])("$input without term $remove", ({ input, remove, result }) => {
+        const query = parseStationQuery(input);
+        expect(removeQueryTerm(input, query.terms[remove])).toBe(result);
+    });
+});
@@ -0,0 +1,241 @@
+import { MetarData } from "@/types";
+import { getCeilingFt } from "@/lib/metarUtils";
+import { getStationInfo } from "@/lib/stationCatalog";
+import { convertVisibility } from "@/lib/units";
+
+/**
+ * Filter terms typed into the search box, e.g. `cat:IFR state:TX gust>25 flagged`.
+ *
+ *   field:value       cat, state, country, wx, type, id; values may be comma-separated alternatives
+ *   field<op>number   vis, ceil, wind, gust, temp, dew, spread, alt, age with <, <=, >, >= or =
+ *   flag              flagged, ok, auto, speci
+ *
+ * A leading - or ! negates a term. All terms must match; words that are not
+ * terms are kept as free text for the identifier and name search.
+ */
+
+export interface QueryTerm {
+    raw: string; // as typed, so a chip can remove it from the query
+    label: string; // chip text, e.g. "Gust > 25 kt"; the reason for an invalid term
+    valid: boolean;
+    test: (m: MetarData) => boolean; // always true for invalid terms
+}
+
+export interface ParsedStationQuery {
+    terms: QueryTerm[];
+    text: string; // free-text words, space separated
+}
+
+type Comparison = "<" | "<=" | ">" | ">=" | "=";
+
+interface NumericField {
+    label: string;
+    unit: string;
+    value: (m: MetarData) => number | null;
+}
+
+function observedWeather(m: MetarData): string[] {
+    return m.weather.map((wx) => wx.toUpperCase());
+}
+
+const numericFields: Record<string, NumericField> = {
+    vis: {
+        label: "Visibility",
+        unit: "SM",
+        value: (m) => {
+            const sm = convertVisibility(m.visibility_sm, "SM");
+            return Number.isFinite(sm) ? sm : null;
+        },
+    },
+    // No ceiling compares as unlimited, so ceil>3000 includes clear skies
+    ceil: { label: "Ceiling", unit: "ft", value: (m) => getCeilingFt(m.clouds) ?? Infinity },
+    wind: { label: "Wind", unit: "kt", value: (m) => m.wind_speed_kt },
+    // Reports without a gust group compare as 0, so gust<15 includes steady winds
+    gust: { label: "Gust", unit: "kt", value: (m) => (m.wind_speed_kt === null ? null : m.wind_gust_kt ?? 0) },
+    temp: { label: "Temp", unit: "°C", value: (m) => m.temperature_c },
+    dew: { label: "Dewpoint", unit: "°C", value: (m) => m.dewpoint_c },
+    spread: {
+        label: "Temp/dew spread",
+        unit: "°C",
+        value: (m) => (m.temperature_c === null || m.dewpoint_c === null ? null : m.temperature_c - m.dewpoint_c),
+    },
+    alt: { label: "Altimeter", unit: "inHg", value: (m) => m.altimeter_hg },
+    age: { label: "Age", unit: "min", value: (m) => (Date.now() - m.obs_time_unix) / 60000 },
+};
+
+const fieldAliases: Record<string, string> = {
+    category: "cat",
+    visibility: "vis",
+    ceiling: "ceil",
+    temperature: "temp",
+    dewpoint: "dew",
+    altimeter: "alt",
+    weather: "wx",
+    icao: "id",
+};
+
+// "Chicago/O'Hare Intl, IL, US" -> ["IL", "US"]; the provider's names end in state and country
+function namePlace(m: MetarData): { state: string | null; country: string | null } {
+    const parts = (m.station_name ?? "").split(",").map((part) => part.trim().toUpperCase());
+    const country = parts.length >= 2 && /^[A-Z]{2}$/.test(parts[parts.length - 1]) ? parts[parts.length - 1] : null;
+    const state = parts.length >= 3 && /^[A-Z]{2}$/.test(parts[parts.length - 2]) ? parts[parts.length - 2] : null;
+    return { state, country };
+}
+
+function stationState(m: MetarData): string | null {
+    return getStationInfo(m.icao)?.state ?? namePlace(m).state;
+}
+
+function stationCountry(m: MetarData): string | null {
+    return getStationInfo(m.icao)?.country ?? namePlace(m).country;
+}
+
+const CATEGORIES = ["VFR", "MVFR", "IFR", "LIFR"];
+
+interface ValueField {
+    label: string;
+    parse?: (value: string) => string | null; // normalized value, or null if invalid
+    test: (m: MetarData, value: string) => boolean;
+}
+
+const valueFields: Record<string, ValueField> = {
+    cat: {
+        label: "Category",
+        parse: (value) => (CATEGORIES.includes(value) ? value : null),
+        test: (m, value) => m.flight_category === value,
+    },
+    state: {
+        label: "State",
+        parse: (value) => (/^[A-Z]{2}$/.test(value) ? value : null),
+        test: (m, value) => stationState(m) === value,
+    },
+    country: {
+        label: "Country",
+        parse: (value) => (/^[A-Z]{2}$/.test(value) ? value : null),
+        test: (m, value) => stationCountry(m) === value,
+    },
+    // A weather code anywhere in a present weather group: wx:RA matches -RA, +SHRA and TSRA
+    wx: {
+        label: "Weather",
+        parse: (value) => (/^[+-]?[A-Z]{2,8}$/.test(value) ? value : null),
+        test: (m, value) => {
+            // With an intensity, wx:-RA matches -RA and -SHRA but not RA or +RA
+            const intensity = /^[+-]/.test(value) ? value[0] : "";
+            const code = value.slice(intensity.length);
+            return observedWeather(m).some((wx) => wx.includes(code) && (!intensity || wx.startsWith(intensity)));
+        },
+    },
+    type: {
+        label: "Report",
+        parse: (value) => (value === "METAR" || value === "SPECI" ? value : null),
+        test: (m, value) => m.metar_type === value,
+    },
+    // Identifier prefix, e.g. id:PH for Hawaii
+    id: {
+        label: "ID",
+        parse: (value) => (/^[A-Z0-9]{1,4}$/.test(value) ? value : null),
+        test: (m, value) => m.icao.startsWith(value),
+    },
+};
+
+const flags: Record<string, { label: string; test: (m: MetarData) => boolean }> = {
+    flagged: { label: "$ maintenance", test: (m) => m.has_maintenance_flag },
+    ok: { label: "No $ flag", test: (m) => !m.has_maintenance_flag },
+    auto: { label: "Automated", test: (m) => !!m.is_auto },
+    speci: { label: "SPECI", test: (m) => m.metar_type === "SPECI" },
+};
+
+const compare: Record<Comparison, (a: number, b: number) => boolean> = {
+    "<": (a, b) => a < b,
+    "<=": (a, b) => a <= b,
+    ">": (a, b) => a > b,
+    ">=": (a, b) => a >= b,
+    "=": (a, b) => a === b,
+};
+
+const always = () => true;
+
+function invalid(raw: string, reason: string): QueryTerm {
+    return { raw, label: reason, valid: false, test: always };
+}
+
+function negate(term: QueryTerm, negated: boolean): QueryTerm {
+    if (!negated || !term.valid) return term;
+    return { ...term, label: `not ${term.label}`, test: (m) => !term.test(m) };
+}
+
+// One term, or null when the word is free text
+function parseTerm(raw: string): QueryTerm | null {
+    const negated = /^[-!]./.test(raw);
+    const body = negated ? raw.slice(1) : raw;
+
+    const flag = flags[body.toLowerCase()];
+    if (flag) return negate({ raw, label: flag.label, valid: true, test: flag.test }, negated);
+
+    const comparison = body.match(/^([a-z]+)(<=|>=|<|>|=)(.*)$/i);
+    if (comparison) {
+        const [, name, op, text] = comparison;
+        const key = fieldAliases[name.toLowerCase()] ?? name.toLowerCase();
+        const field = numericFields[key];
+        if (!field) return invalid(raw, `Unknown field "${name}"`);
+        const limit = Number(text);
+        if (text === "" || !Number.isFinite(limit)) return invalid(raw, `${field.label} needs a number`);
+        const test = (m: MetarData) => {
+            const value = field.value(m);
+            return value !== null && compare[op as Comparison](value, limit);
+        };
+        return negate({ raw, label: `${field.label} ${op} ${limit} ${field.unit}`, valid: true, test }, negated);
+    }
+
+    const pair = body.match(/^([a-z]+):(.*)$/i);
+    if (pair) {
+        const [, name, text] = pair;
+        const key = fieldAliases[name.toLowerCase()] ?? name.toLowerCase();
+        const field = valueFields[key];
+        if (!field) return invalid(raw, `Unknown field "${name}"`);
+        const values = text
+            .replace(/^"|"$/g, "")
+            .split(",")
+            .map((value) => value.trim().toUpperCase())
+            .filter(Boolean);
+        if (values.length === 0) return invalid(raw, `${field.label} needs a value`);
+        const parsed: string[] = [];
+        for (const value of values) {
+            const normalized = field.parse ? field.parse(value) : value;
+            if (normalized === null) return invalid(raw, `Invalid ${field.label.toLowerCase()} "${value}"`);
+            parsed.push(normalized);
+        }
+        const test = (m: MetarData) => parsed.some((value) => field.test(m, value));
+        return negate({ raw, label: `${field.label} ${parsed.join(" or ")}`, valid: true, test }, negated);
+    }
+
+    return null;
+}
+
+// Whitespace-separated words; double quotes keep spaces in a value, e.g. wx:"RA,SN"
+function splitWords(input: string): string[] {
+    return input.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+}
+
+export function parseStationQuery(input: string): ParsedStationQuery {
+    const terms: QueryTerm[] = [];
+    const text: string[] = [];
+    for (const word of splitWords(input)) {
+        const term = parseTerm(word);
+        if (term) terms.push(term);
+        else text.push(word.replace(/"/g, ""));
+    }
+    return { terms, text: text.join(" ") };
+}
+
+export function matchesStationQuery(m: MetarData, query: ParsedStationQuery): boolean {
+    return query.terms.every((term) => term.test(m));
+}
+
+// The query without one of its terms, for a chip's remove button
+export function removeQueryTerm(input: string, term: QueryTerm): string {
+    const words = splitWords(input);
+    const index = words.indexOf(term.raw);
+    if (index >= 0) words.splice(index, 1);
+    return words.join(" ");
+}
@@ -0,0 +1,203 @@
+import {
+    tokenizeMetar,
+    parseWindGroup,
+    parseVisibilityGroup,
+    parseCloudGroup,
+    parseWeatherGroup,
+    resolveDayTime,
+    CAVOK_VISIBILITY,
+    ParsedWind,
+    ParsedVisibility,
+    ParsedCloudLayer,
+} from "@/lib/metarParser";
+import { TafWindShear } from "@/types";
+
+export type TafChangeType = "BASE" | "FM" | "BECMG" | "TEMPO" | "PROB";
+
+export interface ParsedTafGroup {
+    change_type: TafChangeType;
+    probability: number | null;
+    from: Date;
+    to: Date;
+    wind: ParsedWind | null;
+    visibility: ParsedVisibility | null;
+    weather: string[];
+    no_significant_weather: boolean;
+    clouds: ParsedCloudLayer[];
+    wind_shear: TafWindShear | null;
+    unparsed: string[];
+}
+
+export interface ParsedTaf {
+    station: string | null;
+    amended: boolean;
+    corrected: boolean;
+    issued: Date | null;
+    valid_from: Date | null;
+    valid_to: Date | null;
+    groups: ParsedTafGroup[];
+    remarks: string;
+}
+
+const ISSUE_RE = /^(\d{2})(\d{2})(\d{2})Z$/;
+const PERIOD_RE = /^(\d{2})(\d{2})\/(\d{2})(\d{2})$/;
+const FM_RE = /^FM(\d{2})(\d{2})(\d{2})$/;
+const PROB_RE = /^PROB(30|40)$/;
+const WIND_SHEAR_RE = /^WS(\d{3})\/(\d{3})(\d{2,3})KT$/;
+const STATION_RE = /^[A-Z][A-Z0-9]{3}$/;
+
+// Overlay groups describe temporary conditions on top of the prevailing forecast
+export function isOverlayChange(changeType: string | undefined): boolean {
+    return changeType === "TEMPO" || changeType === "PROB";
+}
+
+// Null when either end names a day that doesn't exist
+function resolvePeriod(match: RegExpMatchArray, reference: Date): { from: Date; to: Date } | null {
+    const from = resolveDayTime(Number(match[1]), Number(match[2]), 0, reference);
+    const to = from && resolveDayTime(Number(match[3]), Number(match[4]), 0, from);
+    return from && to ? { from, to } : null;
+}
+
+function emptyGroup(change_type: TafChangeType, from: Date, to: Date, probability: number | null = null): ParsedTafGroup {
+    return {
+        change_type,
+        probability,
+        from,
+        to,
+        wind: null,
+        visibility: null,
+        weather: [],
+        no_significant_weather: false,
+        clouds: [],
+        wind_shear: null,
+        unparsed: [],
+    };
+}
+
+/**
+ * Parse raw TAF text into its change groups. Group times are fully resolved;
+ * FM and the initial group run until the next FM (or the end of validity),
+ * while BECMG/TEMPO/PROB keep the period stated in the TAF.
+ */
+export function parseTafText(raw: string, reference: Date = new Date()): ParsedTaf {
+    const result: ParsedTaf = {
+        station: null,
+        amended: false,
+        corrected: false,
+        issued: null,
+        valid_from: null,
+        valid_to: null,
+        groups: [],
+        remarks: "",
+    };
+
+    let tokens = tokenizeMetar(raw);
+    const rmkIndex = tokens.indexOf("RMK");
+    if (rmkIndex >= 0) {
+        result.remarks = tokens.slice(rmkIndex + 1).join(" ");
+        tokens = tokens.slice(0, rmkIndex);
+    }
+
+    let i = 0;
+    if (tokens[i] === "TAF") i++;
+    while (tokens[i] === "AMD" || tokens[i] === "COR") {
+        if (tokens[i] === "AMD") result.amended = true;
+        else result.corrected = true;
+        i++;
+    }
+    if (tokens[i] && STATION_RE.test(tokens[i])) {
+        result.station = tokens[i];
+        i++;
+    }
+
+    let match: RegExpMatchArray | null;
+    if (tokens[i] && (match = tokens[i].match(ISSUE_RE))) {
+        result.issued = resolveDayTime(Number(match[1]), Number(match[2]), Number(match[3]), reference);
+        i++;
+    }
+    if (tokens[i] && (match = tokens[i].match(PERIOD_RE))) {
+        const period = resolvePeriod(match, result.issued ?? reference);
+        result.valid_from = period?.from ?? null;
+        result.valid_to = period?.to ?? null;
+        i++;
+    }
+    if (!result.valid_from || !result.valid_to) return result;
+
+    const validTo = result.valid_to;
+    let current = emptyGroup("BASE", result.valid_from, validTo);
+    result.groups.push(current);
+
+    for (; i < tokens.length; i++) {
+        const token = tokens[i];
+        const next = tokens[i + 1];
+        let visibility: ReturnType<typeof parseVisibilityGroup>;
+
+        if ((match = token.match(FM_RE))) {
+            const from = resolveDayTime(Number(match[1]), Number(match[2]), Number(match[3]), current.from);
+            if (!from) {
+                current.unparsed.push(token);
+                continue;
+            }
+            current = emptyGroup("FM", from, validTo);
+            result.groups.push(current);
+        } else if ((token === "BECMG" || token === "TEMPO") && next && (match = next.match(PERIOD_RE))) {
+            const period = resolvePeriod(match, current.from);
+            i++;
+            if (!period) {
+                current.unparsed.push(token, next);
+                continue;
+            }
+            current = emptyGroup(token, period.from, period.to);
+            result.groups.push(current);
+        } else if ((match = token.match(PROB_RE))) {
+            const probability = Number(match[1]);
+            // PROB30 TEMPO ddhh/ddhh is a temporary fluctuation with a probability
+            const isTempo = next === "TEMPO";
+            const periodToken = tokens[i + (isTempo ? 2 : 1)];
+            const periodMatch = periodToken?.match(PERIOD_RE);
+            if (!periodMatch) {
+                current.unparsed.push(token);
+                continue;
+            }
+            const period = resolvePeriod(periodMatch, current.from);
+            if (!period) {
+                current.unparsed.push(...tokens.slice(i, i + (isTempo ? 3 : 2)));
+                i += isTempo ? 2 : 1;
+                continue;
+            }
+            current = emptyGroup(isTempo ? "TEMPO" : "PROB", period.from, period.to, probability);
+            result.groups.push(current);
+            i += isTempo ? 2 : 1;
+        } else if ((match = token.match(WIND_SHEAR_RE))) {
+            current.wind_shear = {
+                height_ft: Number(match[1]) * 100,
+                direction: Number(match[2]),
+                speed_kt: Number(match[3]),
+            };
+        } else if (!current.wind && parseWindGroup(token)) {
+            current.wind = parseWindGroup(token);
+        } else if (!current.visibility && (visibility = parseVisibilityGroup(token, next))) {
+            current.visibility = visibility.visibility;
+            i += visibility.consumed - 1;
+        } else if (token === "CAVOK") {
+            current.visibility = CAVOK_VISIBILITY;
+            current.no_significant_weather = true;
+        } else if (token === "NSW") {
+            current.no_significant_weather = true;
+        } else if (parseCloudGroup(token)) {
+            current.clouds.push(parseCloudGroup(token)!);
+        } else if (parseWeatherGroup(token)) {
+            current.weather.push(token);
+        } else {
+            current.unparsed.push(token);
+        }
+    }
+
+    // Each base period (initial group or FM) ends where the next FM begins
+    const basePeriods = result.groups.filter((g) => g.change_type === "BASE" || g.change_type === "FM");
+    for (let b = 0; b < basePeriods.length - 1; b++) {
+        basePeriods[b].to = basePeriods[b + 1].from;
+    }
+
+    return result;
+}
@@ -0,0 +1,109 @@
+import { UnitPreferences } from "@/types";
+
+export const defaultUnits: UnitPreferences = {
+    temp: "C",
+    wind: "kt",
+    visibility: "SM",
+    pressure: "inHg",
+    height: "ft",
+};
+
+export const unitLabels = {
+    temp: { C: "°C", F: "°F" },
+    wind: { kt: "kt", mph: "mph", kmh: "km/h", mps: "m/s" },
+    visibility: { SM: "SM", m: "m", km: "km" },
+    pressure: { inHg: "inHg", hPa: "hPa" },
+    height: { ft: "ft", m: "m" },
+} as const;
+
+const MPH_PER_KT = 1.15078;
+const KMH_PER_KT = 1.852;
+const MPS_PER_KT = 0.514444;
+const METERS_PER_SM = 1609.344;
+const HPA_PER_INHG = 33.8639;
+const METERS_PER_FT = 0.3048;
+
+export function convertTemp(c: number, unit: UnitPreferences["temp"]): number {
+    return unit === "F" ? (c * 9) / 5 + 32 : c;
+}
+
+export function formatTemp(c: number | null | undefined, unit: UnitPreferences["temp"], decimals = 0): string {
+    if (c === null || c === undefined) return "--";
+    const value = convertTemp(c, unit);
+    return decimals > 0 ? value.toFixed(decimals) : String(Math.round(value));
+}
+
+// Temperature differences (e.g. spread) scale without the 32° offset
+export function formatTempDelta(c: number | null | undefined, unit: UnitPreferences["temp"]): string {
+    if (c === null || c === undefined) return "--";
+    return String(Math.round(unit === "F" ? (c * 9) / 5 : c));
+}
+
+export function convertWind(kt: number, unit: UnitPreferences["wind"]): number {
+    switch (unit) {
+        case "mph":
+            return kt * MPH_PER_KT;
+        case "kmh":
+            return kt * KMH_PER_KT;
+        case "mps":
+            return kt * MPS_PER_KT;
+        default:
+            return kt;
+    }
+}
+
+export function formatWind(kt: number | null | undefined, unit: UnitPreferences["wind"]): string {
+    if (kt === null || kt === undefined) return "--";
+    return String(Math.round(convertWind(kt, unit)));
+}
+
+// Visibility in statute miles (or a string like "10+") to the display unit, NaN if unparseable
+export function convertVisibility(sm: number | string, unit: UnitPreferences["visibility"]): number {
+    const value = typeof sm === "number" ? sm : parseFloat(sm);
+    if (unit === "m") return value * METERS_PER_SM;
+    if (unit === "km") return (value * METERS_PER_SM) / 1000;
+    return value;
+}
+
+// Visibility comes in statute miles, possibly as a string like "10+" or "6+"
+export function formatVisibility(sm: number | string | null | undefined, unit: UnitPreferences["visibility"]): string {
+    if (sm === null || sm === undefined) return "--";
+    const text = String(sm);
+    const plus = text.endsWith("+");
+    const value = typeof sm === "number" ? sm : parseFloat(text);
+    if (isNaN(value)) return text;
+
+    let formatted: string;
+    if (unit === "m") {
+        formatted = (Math.round((value * METERS_PER_SM) / 100) * 100).toLocaleString();
+    } else if (unit === "km") {
+        const km = (value * METERS_PER_SM) / 1000;
+        formatted = km >= 10 ? String(Math.round(km)) : km.toFixed(1);
+    } else {
+        formatted = text.replace(/\+$/, "");
+    }
+    return plus ? `${formatted}+` : formatted;
+}
+
+export function convertAltimeter(inHg: number, unit: UnitPreferences["pressure"]): number {
+    return unit === "hPa" ? inHg * HPA_PER_INHG : inHg;
+}
+
+export function formatAltimeter(inHg: number | null | undefined, unit: UnitPreferences["pressure"]): string {
+    if (inHg === null || inHg === undefined) return "--";
+    return unit === "hPa" ? String(Math.round(convertAltimeter(inHg, unit))) : inHg.toFixed(2);
+}
+
+// Station elevations are stored in metres; heights are handled in feet
+export function metersToFeet(m: number): number {
+    return m / METERS_PER_FT;
+}
+
+export function convertHeight(ft: number, unit: UnitPreferences["height"]): number {
+    return unit === "m" ? ft * METERS_PER_FT : ft;
+}
+
+export function formatHeight(ft: number | null | undefined, unit: UnitPreferences["height"]): string {
+    if (ft === null || ft === undefined) return "--";
+    return Math.round(convertHeight(ft, unit)).toLocaleString();
+}
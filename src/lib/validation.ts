@@ -0,0 +1,228 @@
+import { NextResponse } from "next/server";
+import { API_ERROR_CODES } from "@/lib/apiSchemas";
+import { Schema } from "@/lib/schema";
+import { BoundingBox } from "@/types";
+import { StationQuery } from "@/lib/providers";
+import {
+    boundingBoxTileCount,
+    getConfiguredCoverage,
+    MAX_VIEWPORT_TILES,
+    parseBoundingBox,
+    resolveCoverage,
+} from "@/lib/coverage";
+import { StationFilter } from "@/lib/stationFilter";
+import { parseStationQuery } from "@/lib/stationQuery";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/export";
+
+export const METAR_FORMATS = ["json", "raw"] as const;
+export const METAR_TYPES = ["metar", "taf", "sigmet", "airmet", "gairmet", "pirep"] as const;
+// Products covering an area, selected by ?bbox= rather than station ?ids=
+const AREA_TYPES = ["sigmet", "airmet", "gairmet", "pirep"] as const;
+export const MAX_STATION_IDS = 50;
+export const MAX_HOURS = 168; // AWC keeps about a week of observations
+export const STATUS_FILTERS = ["all", "ok", "flagged"] as const;
+export const CATEGORY_FILTERS = ["all", "VFR", "MVFR", "IFR", "LIFR"] as const;
+export const MAX_FILTER_STATION_IDS = 1000; // a favorites list, not a proxy request
+const MAX_SEARCH_LENGTH = 64;
+const DEFAULT_HOURS = 2;
+
+// ICAO codes (KORD, EGLL) and 3-character FAA identifiers (ORD, 1O2)
+const STATION_ID_RE = /^[A-Z0-9]{3,4}$/;
+
+export type MetarFormat = (typeof METAR_FORMATS)[number];
+export type MetarType = (typeof METAR_TYPES)[number];
+
+export interface MetarRequest {
+    ids: string[]; // empty for area products
+    hours: number; // observations for METARs, report age for PIREPs
+    format: MetarFormat;
+    type: MetarType;
+    bbox: BoundingBox | null; // area products only; required for PIREPs
+}
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export class RequestValidationError extends Error {
+    constructor(
+        message: string,
+        public field: string,
+        public code: ApiErrorCode = "INVALID_PARAMETER"
+    ) {
+        super(message);
+        this.name = "RequestValidationError";
+    }
+}
+
+/**
+ * JSON error body shared by the API routes. `error` stays a plain message so
+ * existing clients keep working; `code` and `field` let callers react to it.
+ */
+export function apiError(
+    status: number,
+    code: ApiErrorCode,
+    message: string,
+    init?: { field?: string; headers?: HeadersInit }
+): NextResponse {
+    return NextResponse.json(
+        { error: message, code, ...(init?.field ? { field: init.field } : {}) },
+        { status, headers: init?.headers }
+    );
+}
+
+/**
+ * JSON response checked against its published schema. A mismatch is always
+ * logged; outside production it fails the request so the drift is noticed
+ * before clients see it.
+ */
+export function validatedJson<T>(schema: Schema<T>, body: T, init?: ResponseInit): NextResponse {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        console.error(`Response Validation Error (${schema.name ?? "response"}):`, result.error.message);
+        if (process.env.NODE_ENV !== "production") {
+            return apiError(500, "INTERNAL_ERROR", `Response failed validation: ${result.error.message}`);
+        }
+    }
+    return NextResponse.json(body, init);
+}
+
+/**
+ * JSON response proxied from the weather provider. The schema documents the
+ * upstream shape, which we don't control, so a mismatch is logged and the
+ * payload passed through rather than failing the request.
+ */
+export function upstreamJson<T>(schema: Schema<T>, body: T, init?: ResponseInit): NextResponse {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        console.warn(`Upstream Payload Mismatch (${schema.name ?? "response"}):`, result.error.message);
+    }
+    return NextResponse.json(body, init);
+}
+
+function oneOf<T extends string>(value: string, allowed: readonly T[], field: string): T {
+    if (!(allowed as readonly string[]).includes(value)) {
+        throw new RequestValidationError(`${field} must be one of: ${allowed.join(", ")}`, field);
+    }
+    return value as T;
+}
+
+function parseStationIds(raw: string, field: string, max: number): string[] {
+    const ids = Array.from(
+        new Set(
+            raw
+                .split(",")
+                .map((id) => id.trim().toUpperCase())
+                .filter(Boolean)
+        )
+    );
+    const invalid = ids.filter((id) => !STATION_ID_RE.test(id));
+    if (invalid.length > 0) {
+        throw new RequestValidationError(`Invalid station identifier: ${invalid.slice(0, 5).map((id) => id.slice(0, 10)).join(", ")}`, field);
+    }
+    if (ids.length > max) {
+        throw new RequestValidationError(`At most ${max} station identifiers per request`, field);
+    }
+    return ids;
+}
+
+export function isAreaType(type: MetarType): type is (typeof AREA_TYPES)[number] {
+    return (AREA_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Validate the /api/metar query. Station IDs are upper-cased and
+ * deduplicated; anything outside the allow-lists throws a
+ * RequestValidationError naming the offending field. Area products take
+ * ?bbox= instead of ?ids=.
+ */
+export function parseMetarRequest(searchParams: URLSearchParams): MetarRequest {
+    const type = oneOf(searchParams.get("type") || "metar", METAR_TYPES, "type");
+    const format = oneOf(searchParams.get("format") || "json", METAR_FORMATS, "format");
+
+    let ids: string[] = [];
+    let bbox: BoundingBox | null = null;
+    if (isAreaType(type)) {
+        const rawBbox = searchParams.get("bbox");
+        if (rawBbox) {
+            bbox = parseBoundingBox(rawBbox);
+            if (!bbox) throw new RequestValidationError("bbox must be minLat,minLon,maxLat,maxLon", "bbox");
+            if (boundingBoxTileCount(bbox) > MAX_VIEWPORT_TILES) {
+                throw new RequestValidationError("bbox is too large; request a smaller area", "bbox");
+            }
+        } else if (type === "pirep") {
+            throw new RequestValidationError("Missing bbox parameter", "bbox", "MISSING_PARAMETER");
+        }
+        if (type === "gairmet" && format === "raw") {
+            throw new RequestValidationError("G-AIRMETs have no raw text; use format=json", "format");
+        }
+    } else {
+        const rawIds = searchParams.get("ids");
+        if (!rawIds || !rawIds.trim()) {
+            throw new RequestValidationError("Missing ids parameter", "ids", "MISSING_PARAMETER");
+        }
+
+        ids = parseStationIds(rawIds, "ids", MAX_STATION_IDS);
+        if (ids.length === 0) {
+            throw new RequestValidationError("Missing ids parameter", "ids", "MISSING_PARAMETER");
+        }
+    }
+
+    const rawHours = searchParams.get("hours");
+    const hours = rawHours === null || rawHours === "" ? DEFAULT_HOURS : Number(rawHours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+        throw new RequestValidationError(`hours must be a whole number from 1 to ${MAX_HOURS}`, "hours");
+    }
+
+    return { ids, hours, format, type, bbox };
+}
+
+// Coverage comes from ?region=, ?country= and ?bbox= (combinable); otherwise METAR_COVERAGE
+export function parseCoverageParams(searchParams: URLSearchParams): StationQuery[] {
+    const region = searchParams.get("region");
+    const country = searchParams.get("country");
+    const bbox = searchParams.get("bbox");
+
+    if (!region && !country && !bbox) {
+        return resolveCoverage(getConfiguredCoverage());
+    }
+
+    const queries: StationQuery[] = region ? resolveCoverage(region.split(",")) : [];
+    if (country) {
+        const countries = country.toUpperCase().split(",");
+        if (!countries.every((code) => /^[A-Z]{2}$/.test(code))) {
+            throw new RequestValidationError("country must be comma-separated ISO country codes", "country");
+        }
+        queries.push({ kind: "countries", countries });
+    }
+    if (bbox) {
+        const parsed = parseBoundingBox(bbox);
+        if (!parsed) throw new RequestValidationError("bbox must be minLat,minLon,maxLat,maxLon", "bbox");
+        if (boundingBoxTileCount(parsed) > MAX_VIEWPORT_TILES) {
+            throw new RequestValidationError("bbox is too large; request a smaller area", "bbox");
+        }
+        queries.push({ kind: "bbox", bbox: parsed });
+    }
+    return queries;
+}
+
+// The page's station filters as query parameters: ?q= (text and query terms), ?status=, ?category= and ?ids= (favorites)
+export function parseStationFilterParams(searchParams: URLSearchParams): StationFilter {
+    const search = (searchParams.get("q") ?? "").trim();
+    if (search.length > MAX_SEARCH_LENGTH) {
+        throw new RequestValidationError(`q must be at most ${MAX_SEARCH_LENGTH} characters`, "q");
+    }
+    // The page ignores a term it cannot parse; a download should not silently widen
+    const badTerm = parseStationQuery(search).terms.find((term) => !term.valid);
+    if (badTerm) throw new RequestValidationError(`q: ${badTerm.label} in "${badTerm.raw}"`, "q");
+    const ids = searchParams.get("ids");
+    return {
+        search,
+        status: oneOf(searchParams.get("status") || "all", STATUS_FILTERS, "status"),
+        category: oneOf(searchParams.get("category") || "all", CATEGORY_FILTERS, "category"),
+        stations: ids ? parseStationIds(ids, "ids", MAX_FILTER_STATION_IDS) : null,
+    };
+}
+
+export function parseExportFormat(value: string | null): ExportFormat {
+    if (!value) throw new RequestValidationError("Missing format parameter", "format", "MISSING_PARAMETER");
+    return oneOf(value.toLowerCase(), EXPORT_FORMATS, "format");
+}
@@ -2,6 +2,10 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { useShallow } from "zustand/react/shallow";
+import { HazardLayer, MinimumsProfile, SavedQuery, UnitPreferences } from "@/types";
+import { defaultMinimumsProfiles } from "@/lib/minimums";
+import { defaultUnits } from "@/lib/units";
 
 interface FavoritesState {
   favorites: string[];
@@ -49,31 +53,145 @@ export const useFavoritesStore = create<FavoritesState>()(
 );
 
 // Settings store for preferences
+const unitSettingKeys = {
+  temp: "tempUnit",
+  wind: "windUnit",
+  visibility: "visibilityUnit",
+  pressure: "pressureUnit",
+  height: "heightUnit",
+} as const;
+
 interface SettingsState {
-  tempUnit: "C" | "F";
+  tempUnit: UnitPreferences["temp"];
+  windUnit: UnitPreferences["wind"];
+  visibilityUnit: UnitPreferences["visibility"];
+  pressureUnit: UnitPreferences["pressure"];
+  heightUnit: UnitPreferences["height"];
   theme: "dark" | "light";
+  coverageRegion: string | null; // null uses the server's configured coverage
   alertsEnabled: boolean;
   alertCategories: ("IFR" | "LIFR")[];
-  setTempUnit: (unit: "C" | "F") => void;
+  hazardLayers: HazardLayer[]; // overlays shown on the map
+  setTempUnit: (unit: UnitPreferences["temp"]) => void;
+  setUnit: <K extends keyof UnitPreferences>(kind: K, unit: UnitPreferences[K]) => void;
   setTheme: (theme: "dark" | "light") => void;
+  setCoverageRegion: (region: string | null) => void;
   setAlertsEnabled: (enabled: boolean) => void;
   setAlertCategories: (categories: ("IFR" | "LIFR")[]) => void;
+  toggleHazardLayer: (layer: HazardLayer) => void;
 }
 
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set) => ({
-      tempUnit: "C",
+      tempUnit: defaultUnits.temp,
+      windUnit: defaultUnits.wind,
+      visibilityUnit: defaultUnits.visibility,
+      pressureUnit: defaultUnits.pressure,
+      heightUnit: defaultUnits.height,
       theme: "dark",
+      coverageRegion: null,
       alertsEnabled: false,
       alertCategories: ["IFR", "LIFR"],
+      hazardLayers: [],
       setTempUnit: (unit) => set({ tempUnit: unit }),
+      setUnit: (kind, unit) => set({ [unitSettingKeys[kind]]: unit }),
       setTheme: (theme) => set({ theme }),
+      setCoverageRegion: (region) => set({ coverageRegion: region }),
       setAlertsEnabled: (enabled) => set({ alertsEnabled: enabled }),
       setAlertCategories: (categories) => set({ alertCategories: categories }),
+      toggleHazardLayer: (layer) =>
+        set((state) => ({
+          hazardLayers: state.hazardLayers.includes(layer)
+            ? state.hazardLayers.filter((l) => l !== layer)
+            : [...state.hazardLayers, layer],
+        })),
     }),
     {
       name: "metar-settings",
     }
   )
 );
+
+// Current unit preferences as a single object for the formatting helpers
+export function useUnitPreferences(): UnitPreferences {
+  return useSettingsStore(
+    useShallow((state) => ({
+      temp: state.tempUnit,
+      wind: state.windUnit,
+      visibility: state.visibilityUnit,
+      pressure: state.pressureUnit,
+      height: state.heightUnit,
+    }))
+  );
+}
+
+// Personal minimums profiles for GO / MARGINAL / NO-GO evaluation
+interface MinimumsState {
+  profiles: MinimumsProfile[];
+  activeProfileId: string | null;
+  setActiveProfile: (id: string | null) => void;
+  saveProfile: (profile: MinimumsProfile) => void;
+  deleteProfile: (id: string) => void;
+  getActiveProfile: () => MinimumsProfile | null;
+}
+
+export const useMinimumsStore = create<MinimumsState>()(
+  persist(
+    (set, get) => ({
+      profiles: defaultMinimumsProfiles,
+      activeProfileId: null,
+      setActiveProfile: (id) => set({ activeProfileId: id }),
+      saveProfile: (profile) =>
+        set((state) => ({
+          profiles: state.profiles.some((p) => p.id === profile.id)
+            ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+            : [...state.profiles, profile],
+        })),
+      deleteProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+        })),
+      getActiveProfile: () => {
+        const { profiles, activeProfileId } = get();
+        return profiles.find((p) => p.id === activeProfileId) ?? null;
+      },
+    }),
+    {
+      name: "metar-minimums",
+    }
+  )
+);
+
+// Named search box queries, e.g. "cat:IFR,LIFR flagged"
+interface SavedQueriesState {
+  savedQueries: SavedQuery[];
+  saveQuery: (name: string, query: string) => void;
+  deleteQuery: (id: string) => void;
+}
+
+export const useSavedQueriesStore = create<SavedQueriesState>()(
+  persist(
+    (set) => ({
+      savedQueries: [],
+      // Saving under an existing name replaces that query
+      saveQuery: (name, query) =>
+        set((state) => {
+          const existing = state.savedQueries.find((q) => q.name.toLowerCase() === name.toLowerCase());
+          return {
+            savedQueries: existing
+              ? state.savedQueries.map((q) => (q.id === existing.id ? { ...q, name, query } : q))
+              : [...state.savedQueries, { id: `query-${Date.now()}`, name, query }],
+          };
+        }),
+      deleteQuery: (id) =>
+        set((state) => ({
+          savedQueries: state.savedQueries.filter((q) => q.id !== id),
+        })),
+    }),
+    {
+      name: "metar-saved-queries",
+    }
+  )
+);
@@ -0,0 +1,35 @@
+"use client";
+
+import { create } from "zustand";
+import { LiveEvent } from "@/types";
+
+type CategoryChange = Extract<LiveEvent, { type: "category" }>;
+
+interface LiveState {
+  // Stream connected and the ingest job is running; polling slows down while true
+  live: boolean;
+  ingestedAt: number | null;
+  lastCategoryChange: CategoryChange | null;
+  setLive: (live: boolean) => void;
+  setIngestedAt: (ingestedAt: number | null) => void;
+  setLastCategoryChange: (event: CategoryChange) => void;
+}
+
+export const useLiveStore = create<LiveState>()((set) => ({
+  live: false,
+  ingestedAt: null,
+  lastCategoryChange: null,
+  setLive: (live) => set({ live }),
+  setIngestedAt: (ingestedAt) => set({ ingestedAt }),
+  setLastCategoryChange: (event) => set({ lastCategoryChange: event }),
+}));
+
+// Slowest background poll while live. The stream only patches cached stations in the
+// ingest job's coverage, so other regions, new stations and the snapshot meta still
+// need the occasional refetch.
+const LIVE_POLL_INTERVAL_MS = 15 * 60 * 1000;
+
+// Background polling interval: slowed while live updates arrive over the stream
+export function usePollingInterval(interval: number): number {
+  return useLiveStore((state) => (state.live ? Math.max(interval, LIVE_POLL_INTERVAL_MS) : interval));
+}
@@ -1,16 +1,8 @@
 "use client";
 
 import { create } from "zustand";
-
-export interface OutageEvent {
-  icao: string;
-  stationName: string;
-  startTime: number;
-  startTimeZulu?: string; // Zulu time string like "171553Z"
-  endTime: number | null;
-  endTimeZulu?: string | null;
-  duration: number | null;
-}
+import type { IngestSummary, MaintenanceData, OutageEvent } from "@/types";
+import { maintenanceDataSchema } from "@/lib/apiSchemas";
 
 export interface StationStats {
   icao: string;
@@ -26,22 +18,15 @@ export interface StationStats {
   downtimePercentage: number; // Percentage of tracked time station was down
 }
 
-interface StationStatus {
-  hasFlag: boolean;
-  lastSeen: number;
-  stationName: string;
-}
-
 interface MaintenanceState {
-  stationStatus: Record<string, StationStatus>;
+  stationStatus: MaintenanceData["stationStatus"];
   outageLog: OutageEvent[];
+  lastIngest: IngestSummary | null;
   isLoading: boolean;
   lastFetch: number | null;
 
-  // Fetch data from server
+  // Fetch data from server (written by the /api/ingest job)
   fetchData: () => Promise<void>;
-  // Update station statuses (batched)
-  updateStationStatuses: (updates: Array<{ icao: string; stationName: string; hasFlag: boolean; obsTime: number; observationTime: string }>) => Promise<void>;
   // Get stats for leaderboard (computed from local state)
   getStationStats: () => StationStats[];
   // Get recent outage events
@@ -53,6 +38,7 @@ interface MaintenanceState {
 export const useMaintenanceStore = create<MaintenanceState>()((set, get) => ({
   stationStatus: {},
   outageLog: [],
+  lastIngest: null,
   isLoading: false,
   lastFetch: null,
 
@@ -66,12 +52,13 @@ export const useMaintenanceStore = create<MaintenanceState>()((set, get) => ({
 
     set({ isLoading: true });
     try {
-      const res = await fetch("/api/maintenance");
+      const res = await fetch("/api/v1/maintenance");
       if (res.ok) {
-        const data = await res.json();
+        const data = maintenanceDataSchema.parse(await res.json());
         set({
-          stationStatus: data.stationStatus || {},
-          outageLog: data.outageLog || [],
+          stationStatus: data.stationStatus,
+          outageLog: data.outageLog,
+          lastIngest: data.lastIngest ?? null,
           lastFetch: now,
         });
       }
@@ -82,23 +69,6 @@ export const useMaintenanceStore = create<MaintenanceState>()((set, get) => ({
     }
   },
 
-  updateStationStatuses: async (updates) => {
-    try {
-      const res = await fetch("/api/maintenance", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updates),
-      });
-
-      if (res.ok) {
-        // Refresh data from server
-        await get().fetchData();
-      }
-    } catch (error) {
-      console.error("Failed to update station statuses:", error);
-    }
-  },
-
   getStationStats: () => {
     const { outageLog } = get();
     const statsMap = new Map<string, StationStats>();
@@ -181,7 +151,7 @@ export const useMaintenanceStore = create<MaintenanceState>()((set, get) => ({
     try {
       const res = await fetch("/api/maintenance", { method: "DELETE" });
       if (res.ok) {
-        set({ stationStatus: {}, outageLog: [], lastFetch: null });
+        set({ stationStatus: {}, outageLog: [], lastIngest: null, lastFetch: null });
       }
     } catch (error) {
       console.error("Failed to clear data:", error);
@@ -1,3 +1,41 @@
+export interface RunwayVisualRange {
+    runway: string;
+    visibility_ft: number;
+    variable_max_ft: number | null;
+    modifier: "M" | "P" | null; // M = below, P = above reportable range
+    trend: "U" | "D" | "N" | null;
+}
+
+export type SensorStatusIndicator = "PWINO" | "FZRANO" | "TSNO" | "RVRNO" | "VISNO" | "CHINO" | "PNO";
+
+export interface MetarRemarks {
+    raw: string;
+    station_type: "AO1" | "AO2" | null;
+    sea_level_pressure_hpa: number | null;
+    precise_temperature_c: number | null;
+    precise_dewpoint_c: number | null;
+    peak_wind: { direction: number; speed_kt: number; time: string } | null;
+    wind_shift: { time: string; frontal_passage: boolean } | null;
+    pressure_tendency: { character: number; change_hpa: number } | null;
+    sensor_status: Array<{ indicator: SensorStatusIndicator; location: string | null }>;
+}
+
+export interface MetarTrend {
+    type: "NOSIG" | "BECMG" | "TEMPO";
+    raw: string;
+    from: string | null; // FMhhmm
+    until: string | null; // TLhhmm
+    at: string | null; // AThhmm
+    wind_direction: number | null;
+    wind_speed_kt: number | null;
+    wind_gust_kt: number | null;
+    visibility_m: number | null;
+    cavok: boolean;
+    no_significant_weather: boolean;
+    weather: string[];
+    clouds: Array<{ cover: string; base_ft: number; type?: "CB" | "TCU" }>;
+}
+
 export interface MetarData {
     icao: string;
     raw: string;
@@ -11,15 +49,248 @@ export interface MetarData {
     wind_direction: number | null;
     wind_speed_kt: number | null;
     wind_gust_kt: number | null;
+    wind_variable_from?: number | null;
+    wind_variable_to?: number | null;
     visibility_sm: number | string;
+    visibility_m?: number | null;
+    visibility_unit?: "SM" | "m"; // unit the station reported in
+    directional_visibility?: { distance_m: number; direction: string } | null;
+    cavok?: boolean;
+    runway_visual_range?: RunwayVisualRange[];
     temperature_c: number | null;
     dewpoint_c: number | null;
     altimeter_hg: number | null;
+    altimeter_hpa?: number | null;
+    altimeter_unit?: "inHg" | "hPa"; // unit the station reported in (A or Q group)
     flight_category: "VFR" | "MVFR" | "IFR" | "LIFR";
-    clouds: Array<{ cover: string; base_ft: number }>;
+    clouds: Array<{ cover: string; base_ft: number; type?: "CB" | "TCU" }>;
     weather: string[];
     has_maintenance_flag: boolean;
     metar_type: string;
+    is_auto?: boolean;
+    is_corrected?: boolean;
+    trend?: MetarTrend[];
+    remarks?: MetarRemarks;
+}
+
+// Hazard areas and pilot reports drawn over the stations on the map
+export type HazardType = "CONVECTIVE" | "TURB" | "ICE" | "IFR" | "MTN_OBSCN" | "LLWS" | "SFC_WND" | "FZLVL" | "ASH" | "OTHER";
+
+// Map overlays, named after their /api/metar report type
+export type HazardLayer = "sigmet" | "airmet" | "gairmet" | "pirep";
+
+export interface LatLon {
+    lat: number;
+    lon: number;
+}
+
+// A SIGMET, AIRMET or G-AIRMET area, normalized from the AWC products
+export interface Advisory {
+    id: string;
+    product: "SIGMET" | "AIRMET" | "G-AIRMET";
+    hazard: HazardType;
+    severity: string | null; // e.g. "MOD", "SEV"; null when not stated
+    valid_from: string; // ISO 8601; a G-AIRMET is a snapshot, so both are its valid time
+    valid_to: string;
+    forecast_hour: number | null; // G-AIRMET hours after issuance; null for SIGMETs and AIRMETs
+    base_ft: number | null; // null when unstated; 0 is the surface
+    top_ft: number | null;
+    geometry: "polygon" | "line"; // freezing level G-AIRMETs are contour lines
+    coordinates: LatLon[];
+    raw: string | null; // G-AIRMETs are published as data only
+    description?: string; // e.g. what a G-AIRMET IFR area is due to
+}
+
+export interface PilotReport {
+    id: string;
+    raw: string;
+    urgent: boolean; // UUA
+    aircraft: string | null;
+    observed_at: string;
+    obs_time_unix: number;
+    latitude: number;
+    longitude: number;
+    altitude_ft: number | null;
+    turbulence: string | null; // intensity and type, e.g. "MOD CAT"
+    icing: string | null; // intensity and type, e.g. "LGT RIME"
+    weather: string | null;
+    temperature_c: number | null;
+    wind_direction: number | null;
+    wind_speed_kt: number | null;
+}
+
+// Compact copy of an observation kept in the per-station history archive
+export interface ObservationRecord {
+    icao: string;
+    obs_time_unix: number;
+    observation_time: string;
+    metar_type: string;
+    raw: string;
+    flight_category: MetarData["flight_category"];
+    temperature_c: number | null;
+    dewpoint_c: number | null;
+    wind_direction: number | null;
+    wind_speed_kt: number | null;
+    wind_gust_kt: number | null;
+    visibility_sm: number | string;
+    altimeter_hg: number | null;
+    ceiling_ft: number | null;
+    weather: string[];
+    has_maintenance_flag: boolean;
+}
+
+// How one state, country or bounding box fared when the snapshot was built
+export interface SnapshotRegionStatus {
+    id: string;
+    label: string;
+    status: "ok" | "stale" | "failed"; // stale: upstream failed, serving the last good copy
+    stations: number;
+    fetchedAt: number | null; // Unix timestamp (ms) of the data served for this region
+    error?: string;
+}
+
+export interface SnapshotMeta {
+    version?: string; // content version, also sent as the ETag and used as the `since` cursor
+    generatedAt: number;
+    dataAgeSeconds: number | null; // age of the oldest region data in the response
+    stale: boolean;
+    incomplete: boolean; // at least one region has no data at all
+    regions: SnapshotRegionStatus[];
+}
+
+// Response of /api/metar/all
+export interface MetarSnapshot {
+    meta: SnapshotMeta;
+    metars: MetarData[];
+}
+
+// Response of /api/metar/all?since=<version>: only what changed since that version
+export interface MetarSnapshotDelta {
+    meta: SnapshotMeta;
+    since: string;
+    changed: MetarData[]; // new stations and stations with a different observation
+    removed: string[]; // ICAO codes no longer in the snapshot
+}
+
+// $ maintenance flag period for a station, recorded by the ingest job
+export interface OutageEvent {
+    icao: string;
+    stationName: string;
+    startTime: number; // Unix timestamp from METAR observation
+    startTimeZulu: string; // Zulu time string like "171553Z"
+    endTime: number | null;
+    endTimeZulu: string | null;
+    duration: number | null; // in minutes
+}
+
+export interface MaintenanceStationStatus {
+    hasFlag: boolean;
+    lastSeen: number;
+    lastObsTime: number; // METAR observation time
+    lastObsTimeZulu: string;
+    stationName: string;
+    flightCategory?: MetarData["flight_category"]; // missing on records written before it was tracked
+}
+
+export interface IngestSummary {
+    ingestedAt: number;
+    stations: number;
+    outagesStarted: number;
+    outagesEnded: number;
+    observationsRecorded?: number; // new records in the history archive
+}
+
+// Response of /api/maintenance
+export interface MaintenanceData {
+    stationStatus: Record<string, MaintenanceStationStatus>;
+    outageLog: OutageEvent[];
+    lastIngest?: IngestSummary;
+}
+
+// Pushed over /api/stream as the ingest job sees changes; ids increase monotonically
+export type LiveEvent =
+    | { id: number; type: "observation"; icao: string; at: number; metar: MetarData }
+    | {
+          id: number;
+          type: "category";
+          icao: string;
+          at: number;
+          from: MetarData["flight_category"];
+          to: MetarData["flight_category"];
+      }
+    | { id: number; type: "maintenance"; icao: string; at: number; hasFlag: boolean };
+
+export interface LiveStatus {
+    ingestedAt: number | null; // last ingest run, whether or not it produced events
+    lastEventId: number;
+}
+
+// Bundled station reference data, for lookup by any identifier and for stations not in the snapshot
+export interface StationInfo {
+    icao: string;
+    iata: string | null;
+    faa: string | null; // FAA location identifier; US stations only
+    name: string;
+    city: string;
+    state: string | null; // US state or Canadian province
+    country: string; // ISO 3166-1 alpha-2
+    elevation_ft: number;
+    timezone: string; // IANA zone, e.g. "America/Chicago"
+    sensor: "ASOS" | "AWOS" | null; // automated observing system; null when unknown or not US
+}
+
+export interface Runway {
+    ident: string; // runway end, e.g. "04L"
+    heading_true: number;
+    length_ft: number;
+}
+
+export interface RunwayWindComponents {
+    runway: Runway;
+    headwind_kt: number | null; // negative values are tailwind
+    crosswind_kt: number | null; // positive from the right, negative from the left
+    gust_headwind_kt: number | null;
+    gust_crosswind_kt: number | null;
+}
+
+export interface BoundingBox {
+    minLat: number;
+    minLon: number;
+    maxLat: number;
+    maxLon: number;
+}
+
+export interface UnitPreferences {
+    temp: "C" | "F";
+    wind: "kt" | "mph" | "kmh" | "mps";
+    visibility: "SM" | "m" | "km";
+    pressure: "inHg" | "hPa";
+    height: "ft" | "m";
+}
+
+export interface MinimumsProfile {
+    id: string;
+    name: string;
+    ceiling_ft: number;
+    visibility_sm: number;
+    max_wind_kt: number;
+    max_gust_kt: number;
+    max_crosswind_kt: number;
+}
+
+// A search box filter query kept under a name, e.g. "Texas gusts" -> "state:TX gust>25"
+export interface SavedQuery {
+    id: string;
+    name: string;
+    query: string;
+}
+
+export type GoNoGoStatus = "GO" | "MARGINAL" | "NO-GO";
+
+export interface TafWindShear {
+    height_ft: number;
+    direction: number;
+    speed_kt: number;
 }
 
 export interface TafData {
@@ -29,6 +300,8 @@ export interface TafData {
     issue_time: string;
     valid_from: string;
     valid_to: string;
+    is_amended?: boolean;
+    is_corrected?: boolean;
     forecasts: Array<{
         from: string;
         to: string;
@@ -40,6 +313,9 @@ export interface TafData {
         clouds: Array<{ cover: string; base_ft: number }>;
         weather: string[];
         change_type?: string;
+        probability?: number | null;
+        no_significant_weather?: boolean;
+        wind_shear?: TafWindShear | null;
     }>;
 }
 
@@ -85,3 +361,52 @@ export interface AwcTafResponse {
         fcstChange?: string;
     }>;
 }
+
+export interface AwcAirSigmetResponse {
+    airSigmetId?: number;
+    icaoId?: string;
+    alphaChar?: string;
+    seriesId?: string;
+    validTimeFrom: number; // Unix seconds
+    validTimeTo: number;
+    airSigmetType: string; // "SIGMET", "AIRMET" or "OUTLOOK"
+    hazard: string;
+    severity?: number | string | null;
+    altitudeLow1?: number | null;
+    altitudeHi1?: number | null;
+    rawAirSigmet: string;
+    coords: Array<{ lat: number; lon: number }>;
+}
+
+export interface AwcGairmetResponse {
+    tag?: string;
+    product?: string; // "SIERRA", "TANGO" or "ZULU"
+    forecastHour: number;
+    validTime: string;
+    hazard: string;
+    severity?: string | null;
+    geometryType?: string; // "AREA" or "LINE"
+    due_to?: string | null;
+    top?: string | number | null; // hundreds of feet, or "FZL"
+    base?: string | number | null; // hundreds of feet, "SFC" or "FZL"
+    coords: Array<{ lat: number | string; lon: number | string }>;
+}
+
+export interface AwcPirepResponse {
+    pirepId?: number;
+    obsTime: number; // Unix seconds
+    acType?: string | null;
+    lat: number;
+    lon: number;
+    fltLvl?: number | string | null; // hundreds of feet
+    temp?: number | null;
+    wdir?: number | null;
+    wspd?: number | null;
+    wxString?: string | null;
+    tbInt1?: string | null;
+    tbType1?: string | null;
+    icgInt1?: string | null;
+    icgType1?: string | null;
+    pirepType?: string; // "PIREP" or "Urgent PIREP"
+    rawOb: string;
+}